@@ -0,0 +1,83 @@
+import React, { useMemo, useRef } from 'react';
+import { MindMapNode } from '../../types/mindmap';
+import { flattenVisibleRows } from '../../lib/parser';
+import { getDisplayLabel } from '../../lib/crossLinks';
+import { useTreeKeyboard } from './useTreeKeyboard';
+
+interface AccessibleNodeListProps {
+  nodes: MindMapNode[];
+  onToggleExpand: (nodeId: string) => void;
+  /** Called with the focused node, or null once focus leaves the list */
+  onFocusNode: (nodeId: string | null) => void;
+  label: string;
+}
+
+/**
+ * Keyboard and screen reader access to views whose nodes are not focusable
+ * themselves, like the radial map or the 3D scene. The visible nodes are
+ * listed as an ARIA tree that stays hidden until it receives focus; the
+ * view follows the focused node through onFocusNode.
+ */
+export const AccessibleNodeList: React.FC<AccessibleNodeListProps> = ({
+  nodes,
+  onToggleExpand,
+  onFocusNode,
+  label
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const rows = useMemo(() => flattenVisibleRows(nodes), [nodes]);
+  const { focusedId, handleKeyDown, handleFocus } = useTreeKeyboard({
+    rows,
+    containerRef: listRef,
+    onToggleExpand,
+    onFocusNode
+  });
+
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) onFocusNode(null);
+  };
+
+  return (
+    <div
+      data-export-ignore
+      className="sr-only focus-within:not-sr-only focus-within:absolute focus-within:top-3 focus-within:left-3 focus-within:z-30 focus-within:w-72 focus-within:max-h-[60%] focus-within:overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-2"
+      onBlur={handleBlur}
+    >
+      <p className="px-2 pb-1 text-xs text-gray-500 dark:text-gray-400">
+        Arrow keys move, Enter expands or collapses, letters jump to a node
+      </p>
+      <div
+        ref={listRef}
+        role="tree"
+        aria-label={label}
+        onKeyDown={handleKeyDown}
+        onFocus={handleFocus}
+      >
+        {rows.map(({ node, depth, position, setSize }) => {
+          const hasChildren = node.children.length > 0;
+          return (
+            <div
+              key={node.id}
+              data-node-id={node.id}
+              role="treeitem"
+              aria-level={depth + 1}
+              aria-setsize={setSize}
+              aria-posinset={position}
+              aria-expanded={hasChildren ? node.isExpanded : undefined}
+              aria-selected={focusedId === node.id}
+              tabIndex={focusedId === node.id ? 0 : -1}
+              onClick={() => hasChildren && onToggleExpand(node.id)}
+              className="px-2 py-1 rounded text-sm text-gray-800 dark:text-gray-100 truncate cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:bg-blue-100 focus:text-blue-900"
+              style={{ paddingLeft: `${depth * 16 + 8}px` }}
+            >
+              {getDisplayLabel(node.label)}
+              {hasChildren && !node.isExpanded && (
+                <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({node.children.length} hidden)</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useMemo, useRef } from 'react';
+import { StickyNote } from 'lucide-react';
+import { CrossLink, MindMapNode, NodeEditor } from '../../types/mindmap';
+import { getDisplayLabel } from '../../lib/crossLinks';
+import { getNodeTooltip } from '../../lib/metadata';
+import { getHighlightPattern, splitHighlights } from '../../lib/searchQuery';
+import { estimateNodeSize } from '../../lib/radialLayout';
+import { BalancedLayoutNode, calculateBalancedLayout } from '../../lib/balancedLayout';
+import { CrossLinkOverlay } from './CrossLinkOverlay';
+import { getEmphasisStyle, getNodeStyleClass, getShapeStyle } from '../../lib/nodeStyle';
+import { NodeIcon, NodeLink, NodeMetadata, PriorityBadge } from './NodeMetadata';
+import { EditableNode, NodeLabelInput } from './EditableNode';
+import { useNodeSizes } from './useNodeSizes';
+import { useNodeTransitions } from './useNodeTransitions';
+import { useTheme } from './themeContext';
+
+interface BalancedMindMapProps {
+  nodes: MindMapNode[];
+  onToggleExpand: (nodeId: string) => void;
+  searchQuery?: string;
+  highlightedNodes?: Set<string>;
+  activeNodeId?: string | null;
+  crossLinks?: CrossLink[];
+  editor?: NodeEditor;
+}
+
+/**
+ * Classic mind map with the root in the centre, branches balanced to
+ * either side and joined by tapered curves in one theme colour per branch
+ */
+export const BalancedMindMap: React.FC<BalancedMindMapProps> = ({
+  nodes,
+  onToggleExpand,
+  searchQuery,
+  highlightedNodes,
+  activeNodeId,
+  crossLinks = [],
+  editor
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const measuredSizes = useNodeSizes(layerRef);
+  useNodeTransitions(layerRef, nodes);
+  const theme = useTheme();
+
+  const layout = useMemo(
+    () => calculateBalancedLayout(nodes, node => measuredSizes.get(node.id) ?? estimateNodeSize(node)),
+    [nodes, measuredSizes]
+  );
+
+  // Plain colours rather than classes so SVG and image exports keep them
+  const getBranchColor = (branch: number) =>
+    branch < 0 ? theme.rootColor : theme.palette[branch % theme.palette.length];
+
+  // Roots are solid bubbles, main branches outlined pills, deeper nodes underlined text.
+  // A node given its own shape is filled with its branch colour instead.
+  const getNodeStyle = (node: BalancedLayoutNode): React.CSSProperties => {
+    const color = getBranchColor(node.branch);
+    if (node.shape) {
+      const fill = node.background ?? color;
+      return {
+        backgroundColor: fill,
+        color: node.color ?? theme.nodeTextColor,
+        borderColor: fill,
+        ...getShapeStyle(node, fill, theme.textColor)
+      };
+    }
+    if (node.depth === 0) {
+      return { backgroundColor: node.background ?? color, color: node.color ?? theme.nodeTextColor };
+    }
+    if (node.depth === 1) {
+      return { backgroundColor: node.background ?? theme.background, color: node.color ?? theme.textColor, borderColor: color };
+    }
+    return { backgroundColor: node.background, color: node.color ?? theme.textColor, borderColor: color };
+  };
+
+  const getNodeShape = (depth: number) => {
+    if (depth === 0) return 'px-5 py-3 rounded-full shadow-lg text-base';
+    if (depth === 1) return 'px-3 py-1.5 rounded-full border-2 shadow-sm text-sm';
+    return 'px-2 py-1 border-b-2 text-sm';
+  };
+
+  const highlightText = (text: string, query: string) => {
+    return splitHighlights(text, getHighlightPattern(query)).map((segment, index) =>
+      segment.isMatch ? (
+        <mark key={index} className="bg-yellow-300 text-gray-900 px-1 rounded">
+          {segment.text}
+        </mark>
+      ) : segment.text
+    );
+  };
+
+  const { minX, minY, width, height } = layout.bounds;
+
+  return (
+    <div className="p-6">
+      <div ref={layerRef} className="relative" style={{ width: `${width}px`, height: `${height}px` }}>
+        <svg width={width} height={height} className="absolute inset-0 overflow-visible">
+          <g transform={`translate(${-minX}, ${-minY})`}>
+            {layout.edges.map(edge => (
+              <path key={edge.id} d={edge.path} fill={getBranchColor(edge.branch)} opacity="0.85" />
+            ))}
+          </g>
+        </svg>
+
+        {layout.nodes.map(node => (
+          <EditableNode
+            key={node.id}
+            node={node}
+            editor={editor}
+            className={`
+              absolute transform -translate-x-1/2 -translate-y-1/2 w-max select-none
+              transition-shadow duration-300
+              ${getNodeShape(node.depth)}
+              ${activeNodeId === node.id ? 'ring-4 ring-orange-500' : highlightedNodes?.has(node.id) ? 'ring-4 ring-yellow-400 ring-opacity-50' : ''}
+              ${node.children.length > 0 ? 'cursor-pointer' : ''}
+              ${getNodeStyleClass(node)}
+            `}
+            style={{
+              left: `${node.x - minX}px`,
+              top: `${node.y - minY}px`,
+              maxWidth: '220px',
+              ...getNodeStyle(node)
+            }}
+            onClick={() => node.children.length > 0 && onToggleExpand(node.id)}
+            title={getNodeTooltip(node)}
+          >
+            <div className="flex items-center justify-center gap-2">
+              {node.icon && <span className="flex-shrink-0 leading-none">{node.icon}</span>}
+              <NodeIcon name={node.iconName} />
+              <div className="flex flex-col items-center gap-1 min-w-0">
+                {editor?.editingNodeId === node.id ? (
+                  <NodeLabelInput
+                    label={node.label}
+                    onCommit={(label) => editor.onRename(node.id, label)}
+                    onCancel={() => editor.onStartRename(null)}
+                  />
+                ) : (
+                  <span
+                    className={`leading-tight text-center ${node.depth < 2 ? 'font-semibold' : 'font-medium'}`}
+                    style={getEmphasisStyle(node)}
+                  >
+                    {highlightText(getDisplayLabel(node.label), searchQuery || '')}
+                  </span>
+                )}
+                <NodeMetadata node={node} />
+              </div>
+              {node.priority && <PriorityBadge priority={node.priority} />}
+              {node.note && <StickyNote size={12} className="flex-shrink-0 opacity-75" />}
+              <NodeLink link={node.link} />
+              {node.children.length > 0 && !node.isExpanded && (
+                <span
+                  className="flex-shrink-0 px-1.5 rounded-full text-xs"
+                  style={{ backgroundColor: getBranchColor(node.branch), color: theme.nodeTextColor }}
+                >
+                  +{node.children.length}
+                </span>
+              )}
+            </div>
+          </EditableNode>
+        ))}
+
+        <CrossLinkOverlay containerRef={layerRef} links={crossLinks} layoutKey={layout} />
+      </div>
+    </div>
+  );
+};
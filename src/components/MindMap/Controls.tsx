@@ -8,16 +8,36 @@ import {
   Minimize2,
   TreePine,
   CircleDot,
+  Share2,
+  Network,
+  Workflow,
+  PieChart,
+  Rows3,
   Box,
-  Layers
+  Layers,
+  ChevronUp,
+  ChevronDown,
+  ChevronsUpDown,
+  ChevronsDownUp,
+  Sparkles,
+  Filter
 } from 'lucide-react';
-import { ViewMode, LayoutType, VisualizationType } from '../../types/mindmap';
+import { ViewMode, LayoutType, VisualizationType, MindMapTheme } from '../../types/mindmap';
 import { ExportControls } from './ExportControls';
+import { ThemeControls } from './ThemeControls';
 import { MindMapNode } from '../../types/mindmap';
 
 interface ControlsProps {
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  matchCount: number;
+  activeMatchIndex: number;
+  onNextMatch: () => void;
+  onPreviousMatch: () => void;
+  isFilterActive: boolean;
+  onFilterToggle: () => void;
+  includeDescendants: boolean;
+  onIncludeDescendantsChange: (include: boolean) => void;
   onExport: () => void;
   onCopy: () => void;
   onReset: () => void;
@@ -28,6 +48,17 @@ interface ControlsProps {
   visualizationType: VisualizationType;
   onVisualizationChange: (type: VisualizationType) => void;
   nodeCount: number;
+  visibleNodeCount?: number;
+  maxDepth: number;
+  onExpandAll: () => void;
+  onCollapseAll: () => void;
+  onExpandToDepth: (depth: number) => void;
+  animationsEnabled: boolean;
+  onAnimationsToggle: () => void;
+  theme: MindMapTheme;
+  customThemes: MindMapTheme[];
+  onThemeChange: (theme: MindMapTheme) => void;
+  onCustomThemesChange: (themes: MindMapTheme[]) => void;
   nodes: MindMapNode[];
   inputText: string;
   mindMapRef: React.RefObject<HTMLDivElement>;
@@ -37,6 +68,14 @@ interface ControlsProps {
 export const Controls: React.FC<ControlsProps> = ({
   searchQuery,
   onSearchChange,
+  matchCount,
+  activeMatchIndex,
+  onNextMatch,
+  onPreviousMatch,
+  isFilterActive,
+  onFilterToggle,
+  includeDescendants,
+  onIncludeDescendantsChange,
   onExport,
   onCopy,
   onReset,
@@ -47,13 +86,24 @@ export const Controls: React.FC<ControlsProps> = ({
   visualizationType,
   onVisualizationChange,
   nodeCount,
+  visibleNodeCount,
+  maxDepth,
+  onExpandAll,
+  onCollapseAll,
+  onExpandToDepth,
+  animationsEnabled,
+  onAnimationsToggle,
+  theme,
+  customThemes,
+  onThemeChange,
+  onCustomThemesChange,
   nodes,
   inputText,
   mindMapRef,
   threejsRenderer
 }) => {
   return (
-    <div className="bg-white border-b border-gray-200 p-4">
+    <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-4">
       <div className="flex flex-wrap items-center justify-between gap-4">
         {/* Search */}
         <div className="flex items-center gap-2 flex-1 min-w-64">
@@ -61,24 +111,79 @@ export const Controls: React.FC<ControlsProps> = ({
             <Search size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
             <input
               type="text"
-              placeholder="Search nodes..."
+              placeholder='Search... e.g. "key tasks" OR level:2 -#done'
+              title={'Words and "phrases" must all match. Combine with AND, OR, NOT (or -term) and (...).\n/regex/ · word~ for typos · #tag · !1 · key::value\nlevel:2 · level:>1 · leaf:true · has:children|note|link|tags|priority|icon · under:"Parent"'}
               value={searchQuery}
               onChange={(e) => onSearchChange(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              onKeyDown={(e) => {
+                if (e.key !== 'Enter') return;
+                e.preventDefault();
+                if (e.shiftKey) {
+                  onPreviousMatch();
+                } else {
+                  onNextMatch();
+                }
+              }}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             />
           </div>
+          {searchQuery.trim() && (
+            <div className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap">
+              <span className="w-20 text-center" aria-live="polite">
+                {matchCount > 0 ? `${activeMatchIndex + 1} of ${matchCount}` : 'No matches'}
+              </span>
+              <button
+                onClick={onPreviousMatch}
+                disabled={matchCount === 0}
+                className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-colors"
+                title="Previous match (Shift+Enter)"
+              >
+                <ChevronUp size={16} />
+              </button>
+              <button
+                onClick={onNextMatch}
+                disabled={matchCount === 0}
+                className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-colors"
+                title="Next match (Enter)"
+              >
+                <ChevronDown size={16} />
+              </button>
+            </div>
+          )}
+          <button
+            onClick={onFilterToggle}
+            className={`p-2 rounded-lg transition-colors ${
+              isFilterActive
+                ? 'bg-blue-100 text-blue-600'
+                : 'text-gray-600 dark:text-gray-300 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-gray-700'
+            }`}
+            title={isFilterActive ? 'Show all nodes' : 'Show only matches and their parents'}
+            aria-pressed={isFilterActive}
+          >
+            <Filter size={16} />
+          </button>
+          {isFilterActive && (
+            <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={includeDescendants}
+                onChange={(e) => onIncludeDescendantsChange(e.target.checked)}
+              />
+              With children
+            </label>
+          )}
         </div>
         
         {/* Controls */}
         <div className="flex items-center gap-2">
           {/* View Mode Toggle */}
-          <div className="flex bg-gray-100 rounded-lg p-1">
+          <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
             <button
               onClick={() => onViewModeChange('split')}
               className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
                 viewMode === 'split' 
-                  ? 'bg-white text-blue-600 shadow-sm' 
-                  : 'text-gray-600 hover:text-blue-600'
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
               }`}
             >
               Split
@@ -87,8 +192,8 @@ export const Controls: React.FC<ControlsProps> = ({
               onClick={() => onViewModeChange('preview')}
               className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
                 viewMode === 'preview' 
-                  ? 'bg-white text-blue-600 shadow-sm' 
-                  : 'text-gray-600 hover:text-blue-600'
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
               }`}
             >
               <Maximize2 size={14} className="inline mr-1" />
@@ -98,8 +203,8 @@ export const Controls: React.FC<ControlsProps> = ({
               onClick={() => onViewModeChange('input')}
               className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
                 viewMode === 'input' 
-                  ? 'bg-white text-blue-600 shadow-sm' 
-                  : 'text-gray-600 hover:text-blue-600'
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
               }`}
             >
               <Minimize2 size={14} className="inline mr-1" />
@@ -108,13 +213,13 @@ export const Controls: React.FC<ControlsProps> = ({
           </div>
           
           {/* Visualization Type Toggle */}
-          <div className="flex bg-gray-100 rounded-lg p-1">
+          <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
             <button
               onClick={() => onVisualizationChange('2d')}
               className={`px-2 py-1 rounded transition-colors ${
                 visualizationType === '2d' 
-                  ? 'bg-white text-blue-600 shadow-sm' 
-                  : 'text-gray-600 hover:text-blue-600'
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
               }`}
               title="2D View"
             >
@@ -124,8 +229,8 @@ export const Controls: React.FC<ControlsProps> = ({
               onClick={() => onVisualizationChange('3d')}
               className={`px-2 py-1 rounded transition-colors ${
                 visualizationType === '3d' 
-                  ? 'bg-white text-blue-600 shadow-sm' 
-                  : 'text-gray-600 hover:text-blue-600'
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
               }`}
               title="3D View"
             >
@@ -135,13 +240,13 @@ export const Controls: React.FC<ControlsProps> = ({
           
           {/* Layout Toggle (only for 2D) */}
           {visualizationType === '2d' && (
-            <div className="flex bg-gray-100 rounded-lg p-1">
+            <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
             <button
               onClick={() => onLayoutChange('tree')}
               className={`px-2 py-1 rounded transition-colors ${
                 layoutType === 'tree' 
-                  ? 'bg-white text-blue-600 shadow-sm' 
-                  : 'text-gray-600 hover:text-blue-600'
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
               }`}
               title="Tree Layout"
             >
@@ -151,20 +256,125 @@ export const Controls: React.FC<ControlsProps> = ({
               onClick={() => onLayoutChange('radial')}
               className={`px-2 py-1 rounded transition-colors ${
                 layoutType === 'radial' 
-                  ? 'bg-white text-blue-600 shadow-sm' 
-                  : 'text-gray-600 hover:text-blue-600'
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
               }`}
               title="Radial Layout"
             >
               <CircleDot size={16} />
             </button>
+            <button
+              onClick={() => onLayoutChange('balanced')}
+              className={`px-2 py-1 rounded transition-colors ${
+                layoutType === 'balanced' 
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
+              }`}
+              title="Classic Mind Map Layout"
+            >
+              <Share2 size={16} />
+            </button>
+            <button
+              onClick={() => onLayoutChange('orgchart')}
+              className={`px-2 py-1 rounded transition-colors ${
+                layoutType === 'orgchart' 
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
+              }`}
+              title="Org Chart Layout"
+            >
+              <Network size={16} />
+            </button>
+            <button
+              onClick={() => onLayoutChange('tidy')}
+              className={`px-2 py-1 rounded transition-colors ${
+                layoutType === 'tidy' 
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
+              }`}
+              title="Left-to-Right Tree Layout"
+            >
+              <Workflow size={16} />
+            </button>
+            <button
+              onClick={() => onLayoutChange('sunburst')}
+              className={`px-2 py-1 rounded transition-colors ${
+                layoutType === 'sunburst' 
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
+              }`}
+              title="Sunburst View"
+            >
+              <PieChart size={16} />
+            </button>
+            <button
+              onClick={() => onLayoutChange('icicle')}
+              className={`px-2 py-1 rounded transition-colors ${
+                layoutType === 'icicle' 
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
+              }`}
+              title="Icicle View"
+            >
+              <Rows3 size={16} />
+            </button>
           </div>
           )}
           
+          {/* Expand/Collapse */}
+          <div className="flex items-center bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+            <button
+              onClick={onExpandAll}
+              className="px-2 py-1 rounded text-gray-600 dark:text-gray-300 hover:text-blue-600 transition-colors"
+              title="Expand All"
+            >
+              <ChevronsUpDown size={16} />
+            </button>
+            <button
+              onClick={onCollapseAll}
+              className="px-2 py-1 rounded text-gray-600 dark:text-gray-300 hover:text-blue-600 transition-colors"
+              title="Collapse All"
+            >
+              <ChevronsDownUp size={16} />
+            </button>
+            <select
+              value=""
+              onChange={(e) => onExpandToDepth(Number(e.target.value))}
+              disabled={maxDepth === 0}
+              className="text-sm text-gray-600 dark:text-gray-300 bg-transparent px-1 focus:outline-none disabled:opacity-40"
+              title="Expand to Level"
+            >
+              <option value="" disabled>Level</option>
+              {Array.from({ length: maxDepth }, (_, index) => (
+                <option key={index} value={index + 1}>Level {index + 1}</option>
+              ))}
+            </select>
+          </div>
+          
           {/* Action Buttons */}
+          <button
+            onClick={onAnimationsToggle}
+            className={`p-2 rounded-lg transition-colors ${
+              animationsEnabled
+                ? 'bg-blue-100 text-blue-600'
+                : 'text-gray-600 dark:text-gray-300 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-gray-700'
+            }`}
+            title={animationsEnabled ? 'Turn off animations' : 'Turn on animations'}
+            aria-pressed={animationsEnabled}
+          >
+            <Sparkles size={16} />
+          </button>
+          
+          <ThemeControls
+            theme={theme}
+            customThemes={customThemes}
+            onThemeChange={onThemeChange}
+            onCustomThemesChange={onCustomThemesChange}
+          />
+          
           <button
             onClick={onCopy}
-            className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            className="p-2 text-gray-600 dark:text-gray-300 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-gray-700 rounded-lg transition-colors"
             title="Copy to Clipboard"
           >
             <Copy size={16} />
@@ -172,7 +382,7 @@ export const Controls: React.FC<ControlsProps> = ({
           
           <button
             onClick={onExport}
-            className="p-2 text-gray-600 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+            className="p-2 text-gray-600 dark:text-gray-300 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
             title="Export Mind Map"
           >
             <Download size={16} />
@@ -180,7 +390,7 @@ export const Controls: React.FC<ControlsProps> = ({
           
           <button
             onClick={onReset}
-            className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            className="p-2 text-gray-600 dark:text-gray-300 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
             title="Reset"
           >
             <RotateCcw size={16} />
@@ -201,8 +411,8 @@ export const Controls: React.FC<ControlsProps> = ({
       
       {/* Stats */}
       {nodeCount > 0 && (
-        <div className="mt-3 text-sm text-gray-500">
-          {nodeCount} nodes • {searchQuery && `Search: "${searchQuery}"`}
+        <div className="mt-3 text-sm text-gray-500 dark:text-gray-400">
+          {visibleNodeCount !== undefined ? `${visibleNodeCount} of ${nodeCount}` : nodeCount} nodes • {searchQuery && `Search: "${searchQuery}"`}
         </div>
       )}
     </div>
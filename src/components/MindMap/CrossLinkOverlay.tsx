@@ -0,0 +1,101 @@
+import React, { useLayoutEffect, useState } from 'react';
+import { CrossLink } from '../../types/mindmap';
+
+interface CrossLinkOverlayProps {
+  containerRef: React.RefObject<HTMLElement>;
+  links: CrossLink[];
+  layoutKey?: unknown;
+}
+
+interface LinkPath {
+  id: string;
+  d: string;
+}
+
+export const CROSS_LINK_COLOR = '#ec4899';
+
+/**
+ * Arrowhead marker shared by the SVG cross-link renderers
+ */
+export const CrossLinkMarker: React.FC<{ id: string }> = ({ id }) => (
+  <defs>
+    <marker id={id} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+      <path d="M 0 0 L 10 5 L 0 10 z" fill={CROSS_LINK_COLOR} />
+    </marker>
+  </defs>
+);
+
+/**
+ * Draws cross-links as dashed curves over DOM-rendered nodes.
+ * Nodes are located through their data-node-id attribute; links to
+ * nodes hidden inside collapsed branches are skipped.
+ */
+export const CrossLinkOverlay: React.FC<CrossLinkOverlayProps> = ({
+  containerRef,
+  links,
+  layoutKey
+}) => {
+  const [paths, setPaths] = useState<LinkPath[]>([]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container || links.length === 0) {
+      setPaths([]);
+      return;
+    }
+
+    const measure = () => {
+      const containerRect = container.getBoundingClientRect();
+      // Rects are in screen space; undo any zoom applied by the viewport
+      const scale = container.offsetWidth ? containerRect.width / container.offsetWidth : 1;
+      const findRect = (nodeId: string) =>
+        container.querySelector(`[data-node-id="${CSS.escape(nodeId)}"]`)?.getBoundingClientRect();
+
+      const measured: LinkPath[] = [];
+      links.forEach(link => {
+        const source = findRect(link.sourceId);
+        const target = findRect(link.targetId);
+        if (!source || !target) return;
+
+        // Leave from and arrive at the right edge, bulging outwards
+        const sx = (source.right - containerRect.left) / scale;
+        const sy = (source.top + source.height / 2 - containerRect.top) / scale;
+        const tx = (target.right - containerRect.left) / scale;
+        const ty = (target.top + target.height / 2 - containerRect.top) / scale;
+        const bulge = 40 + Math.abs(ty - sy) * 0.25;
+        const cx = Math.max(sx, tx) + bulge;
+
+        measured.push({
+          id: link.id,
+          d: `M ${sx} ${sy} C ${cx} ${sy}, ${cx} ${ty}, ${tx} ${ty}`
+        });
+      });
+      setPaths(measured);
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef, links, layoutKey]);
+
+  if (paths.length === 0) return null;
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+      <CrossLinkMarker id="cross-link-arrow" />
+      {paths.map(path => (
+        <path
+          key={path.id}
+          d={path.d}
+          fill="none"
+          stroke={CROSS_LINK_COLOR}
+          strokeWidth="2"
+          strokeDasharray="6 4"
+          markerEnd="url(#cross-link-arrow)"
+          opacity="0.8"
+        />
+      ))}
+    </svg>
+  );
+};
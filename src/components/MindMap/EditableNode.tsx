@@ -0,0 +1,176 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Pencil, Plus, ListPlus, Trash2, Focus, Paintbrush } from 'lucide-react';
+import { MindMapNode, NodeEditor } from '../../types/mindmap';
+import { NodeStyleMenu } from './NodeStyleMenu';
+
+const DRAG_TYPE = 'application/x-mindmap-node';
+
+interface EditableNodeProps {
+  node: MindMapNode;
+  editor?: NodeEditor;
+  className: string;
+  style?: React.CSSProperties;
+  onClick?: () => void;
+  title?: string;
+  itemProps?: React.HTMLAttributes<HTMLDivElement>;
+  children: React.ReactNode;
+}
+
+interface NodeLabelInputProps {
+  label: string;
+  onCommit: (label: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Inline text field for renaming a node. Enter or leaving the field
+ * commits the new label, Escape cancels.
+ */
+export const NodeLabelInput: React.FC<NodeLabelInputProps> = ({ label, onCommit, onCancel }) => {
+  const doneRef = useRef(false);
+
+  const finish = (commit: boolean, value: string) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    if (commit) {
+      onCommit(value);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <input
+      autoFocus
+      defaultValue={label}
+      onFocus={(e) => e.target.select()}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') finish(true, e.currentTarget.value);
+        if (e.key === 'Escape') finish(false, e.currentTarget.value);
+      }}
+      onBlur={(e) => finish(true, e.target.value)}
+      className="min-w-0 w-40 px-1 rounded text-sm text-gray-900 bg-white outline-none ring-2 ring-blue-300"
+    />
+  );
+};
+
+const toolbarButtonClass = 'p-1 rounded text-gray-600 hover:bg-gray-100 hover:text-gray-900';
+
+/**
+ * Node frame shared by the 2D views: double-click to rename, drag onto
+ * another node to reparent, right-click to style, and a hover toolbar
+ * for the other edits.
+ */
+export const EditableNode: React.FC<EditableNodeProps> = ({
+  node,
+  editor,
+  className,
+  style,
+  onClick,
+  title,
+  itemProps,
+  children
+}) => {
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const isEditing = editor?.editingNodeId === node.id;
+  const closeMenu = useCallback(() => setMenuPosition(null), []);
+
+  const runAction = (action: (nodeId: string) => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action(node.id);
+  };
+
+  return (
+    <div
+      {...itemProps}
+      className={`group ${className} ${isDropTarget ? 'ring-4 ring-blue-400' : ''} focus:outline-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600`}
+      data-node-id={node.id}
+      style={style}
+      onClick={onClick}
+      title={title}
+      draggable={!!editor && !isEditing}
+      onDoubleClick={(e) => {
+        if (!editor) return;
+        e.stopPropagation();
+        editor.onStartRename(node.id);
+      }}
+      onContextMenu={(e) => {
+        if (!editor || isEditing) return;
+        e.preventDefault();
+        e.stopPropagation();
+        // The context menu key reports no pointer position, so open by the node
+        if (e.clientX === 0 && e.clientY === 0) {
+          const rect = e.currentTarget.getBoundingClientRect();
+          setMenuPosition({ x: rect.left, y: rect.bottom + 4 });
+        } else {
+          setMenuPosition({ x: e.clientX, y: e.clientY });
+        }
+      }}
+      onDragStart={(e) => {
+        e.stopPropagation();
+        e.dataTransfer.setData(DRAG_TYPE, node.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onDragOver={(e) => {
+        if (!editor || !e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setIsDropTarget(true);
+      }}
+      onDragLeave={() => setIsDropTarget(false)}
+      onDrop={(e) => {
+        setIsDropTarget(false);
+        const draggedId = e.dataTransfer.getData(DRAG_TYPE);
+        if (!editor || !draggedId || draggedId === node.id) return;
+        e.preventDefault();
+        editor.onMove(draggedId, node.id);
+      }}
+    >
+      {children}
+
+      {editor && !isEditing && (
+        <div className="absolute -top-3 right-1 z-10 hidden group-hover:flex items-center gap-0.5 px-0.5 bg-white rounded shadow border border-gray-200">
+          <button onClick={runAction(editor.onStartRename)} className={toolbarButtonClass} title="Rename">
+            <Pencil size={12} />
+          </button>
+          <button onClick={runAction(editor.onAddChild)} className={toolbarButtonClass} title="Add child">
+            <Plus size={12} />
+          </button>
+          <button onClick={runAction(editor.onAddSibling)} className={toolbarButtonClass} title="Add sibling">
+            <ListPlus size={12} />
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              const rect = e.currentTarget.getBoundingClientRect();
+              setMenuPosition({ x: rect.left, y: rect.bottom + 4 });
+            }}
+            className={toolbarButtonClass}
+            title="Style (or right-click the node)"
+          >
+            <Paintbrush size={12} />
+          </button>
+          {node.children.length > 0 && (
+            <button onClick={runAction(editor.onHoist)} className={toolbarButtonClass} title="Focus on this branch">
+              <Focus size={12} />
+            </button>
+          )}
+          <button onClick={runAction(editor.onDelete)} className={`${toolbarButtonClass} hover:text-red-600`} title="Delete with children">
+            <Trash2 size={12} />
+          </button>
+        </div>
+      )}
+
+      {editor && menuPosition && (
+        <NodeStyleMenu
+          node={node}
+          position={menuPosition}
+          onStyle={(style) => editor.onStyle(node.id, style)}
+          onClose={closeMenu}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,18 @@
 import React, { useRef } from 'react';
-import { Download, FileImage, FileCode, FileText } from 'lucide-react';
-import { MindMapNode, VisualizationType } from '../../types/mindmap';
+import { Download, FileImage, FileCode, FileText, ListTree, Network, GitFork, ClipboardCopy } from 'lucide-react';
+import { ExportScope, MindMapNode, VisualizationType } from '../../types/mindmap';
 import { 
   exportToPNG, 
   exportToSVG, 
   exportToJSON, 
+  exportToOPML,
+  exportToFreeMind,
+  exportToMermaid,
+  copyMermaidToClipboard,
   export3DToPNG 
 } from '../../lib/exportUtils';
+import { applyThemeColors } from '../../lib/themes';
+import { useTheme } from './themeContext';
 
 interface ExportControlsProps {
   nodes: MindMapNode[];
@@ -24,6 +30,8 @@ export const ExportControls: React.FC<ExportControlsProps> = ({
   threejsRenderer
 }) => {
   const [isExporting, setIsExporting] = React.useState(false);
+  const [imageScope, setImageScope] = React.useState<ExportScope>('full');
+  const theme = useTheme();
 
   const handleExportPNG = async () => {
     if (!mindMapRef.current || isExporting) return;
@@ -31,9 +39,9 @@ export const ExportControls: React.FC<ExportControlsProps> = ({
     setIsExporting(true);
     try {
       if (visualizationType === '3d' && threejsRenderer) {
-        await export3DToPNG(threejsRenderer);
+        await export3DToPNG(threejsRenderer, { background: theme.background });
       } else {
-        await exportToPNG(mindMapRef.current);
+        await exportToPNG(mindMapRef.current, { scope: imageScope, background: theme.background });
       }
     } finally {
       setIsExporting(false);
@@ -45,7 +53,7 @@ export const ExportControls: React.FC<ExportControlsProps> = ({
     
     setIsExporting(true);
     try {
-      await exportToSVG(mindMapRef.current);
+      await exportToSVG(mindMapRef.current, { scope: imageScope, background: theme.background });
     } finally {
       setIsExporting(false);
     }
@@ -61,27 +69,82 @@ export const ExportControls: React.FC<ExportControlsProps> = ({
     }
   };
 
+  const handleExportOPML = () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      exportToOPML(nodes);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportFreeMind = () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      // FreeMind stores colours per node, so write the theme's in
+      exportToFreeMind(applyThemeColors(nodes, theme));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportMermaid = () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      exportToMermaid(nodes);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleCopyMermaid = async () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      await copyMermaidToClipboard(nodes);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const buttonClass = `
     flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg
     transition-all duration-200 border
     ${isExporting 
-      ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed' 
-      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50 hover:border-gray-400 hover:shadow-sm'
+      ? 'bg-gray-100 dark:bg-gray-700 text-gray-400 border-gray-200 dark:border-gray-700 cursor-not-allowed' 
+      : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 hover:border-gray-400 hover:shadow-sm'
     }
   `;
 
   const disabledButtonClass = `
     flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg
-    bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed
+    bg-gray-100 dark:bg-gray-700 text-gray-400 border-gray-200 dark:border-gray-700 cursor-not-allowed
   `;
 
   return (
-    <div className="flex items-center gap-2 bg-gray-50 p-2 rounded-lg border">
-      <div className="flex items-center gap-1 text-xs text-gray-600 mr-2">
+    <div className="flex items-center gap-2 bg-gray-50 dark:bg-gray-900 p-2 rounded-lg border">
+      <div className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300 mr-2">
         <Download size={14} />
         <span className="font-medium">Export:</span>
       </div>
       
+      {/* Image scope - 2D views can be panned and zoomed */}
+      {visualizationType === '2d' && (
+        <select
+          value={imageScope}
+          onChange={(e) => setImageScope(e.target.value as ExportScope)}
+          disabled={isExporting}
+          className="px-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Area captured by PNG and SVG exports"
+        >
+          <option value="full">Whole map</option>
+          <option value="visible">Visible area</option>
+        </select>
+      )}
+
       {/* PNG Export */}
       <button
         onClick={handleExportPNG}
@@ -126,6 +189,47 @@ export const ExportControls: React.FC<ExportControlsProps> = ({
         JSON
       </button>
 
+      {/* OPML Export */}
+      <button
+        onClick={handleExportOPML}
+        disabled={isExporting || nodes.length === 0}
+        className={nodes.length === 0 ? disabledButtonClass : buttonClass}
+        title="Export as OPML outline"
+      >
+        <ListTree size={16} />
+        OPML
+      </button>
+
+      {/* FreeMind Export */}
+      <button
+        onClick={handleExportFreeMind}
+        disabled={isExporting || nodes.length === 0}
+        className={nodes.length === 0 ? disabledButtonClass : buttonClass}
+        title="Export as FreeMind / Freeplane map (.mm)"
+      >
+        <Network size={16} />
+        FreeMind
+      </button>
+
+      {/* Mermaid Export */}
+      <button
+        onClick={handleExportMermaid}
+        disabled={isExporting || nodes.length === 0}
+        className={nodes.length === 0 ? disabledButtonClass : buttonClass}
+        title="Export as Mermaid mindmap (.mmd)"
+      >
+        <GitFork size={16} />
+        Mermaid
+      </button>
+      <button
+        onClick={handleCopyMermaid}
+        disabled={isExporting || nodes.length === 0}
+        className={nodes.length === 0 ? disabledButtonClass : buttonClass}
+        title="Copy as Mermaid code block"
+      >
+        <ClipboardCopy size={16} />
+      </button>
+
       {isExporting && (
         <div className="flex items-center gap-2 text-xs text-blue-600 ml-2">
           <div className="animate-spin w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full"></div>
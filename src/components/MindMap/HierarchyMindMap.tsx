@@ -0,0 +1,145 @@
+import React, { useMemo, useRef } from 'react';
+import { StickyNote } from 'lucide-react';
+import { CrossLink, MindMapNode, NodeEditor } from '../../types/mindmap';
+import { getDisplayLabel } from '../../lib/crossLinks';
+import { getNodeTooltip } from '../../lib/metadata';
+import { getHighlightPattern, splitHighlights } from '../../lib/searchQuery';
+import { estimateNodeSize } from '../../lib/radialLayout';
+import { calculateTreeLayout, TreeOrientation } from '../../lib/treeLayout';
+import { getFilledNodeStyle } from '../../lib/themes';
+import { getEmphasisStyle, getNodeStyleClass, getShapeStyle } from '../../lib/nodeStyle';
+import { CrossLinkOverlay } from './CrossLinkOverlay';
+import { NodeIcon, NodeLink, NodeMetadata, PriorityBadge } from './NodeMetadata';
+import { EditableNode, NodeLabelInput } from './EditableNode';
+import { useNodeSizes } from './useNodeSizes';
+import { useNodeTransitions } from './useNodeTransitions';
+import { useNodeFills, useTheme } from './themeContext';
+
+interface HierarchyMindMapProps {
+  nodes: MindMapNode[];
+  orientation: TreeOrientation;
+  onToggleExpand: (nodeId: string) => void;
+  searchQuery?: string;
+  highlightedNodes?: Set<string>;
+  activeNodeId?: string | null;
+  crossLinks?: CrossLink[];
+  editor?: NodeEditor;
+}
+
+/**
+ * Org chart (vertical) and left-to-right tree (horizontal) drawn as
+ * positioned node cards joined by SVG connectors
+ */
+export const HierarchyMindMap: React.FC<HierarchyMindMapProps> = ({
+  nodes,
+  orientation,
+  onToggleExpand,
+  searchQuery,
+  highlightedNodes,
+  activeNodeId,
+  crossLinks = [],
+  editor
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const measuredSizes = useNodeSizes(layerRef);
+  useNodeTransitions(layerRef, nodes);
+  const theme = useTheme();
+  const fills = useNodeFills(nodes);
+
+  const layout = useMemo(
+    () => calculateTreeLayout(nodes, node => measuredSizes.get(node.id) ?? estimateNodeSize(node), orientation),
+    [nodes, measuredSizes, orientation]
+  );
+
+  // Theme fill, then the node's own shape over it
+  const getStyledNode = (node: MindMapNode): React.CSSProperties => {
+    const filled = getFilledNodeStyle(node, fills, theme);
+    return { ...filled, ...getShapeStyle(node, filled.backgroundColor, theme.textColor) };
+  };
+
+  const highlightText = (text: string, query: string) => {
+    return splitHighlights(text, getHighlightPattern(query)).map((segment, index) =>
+      segment.isMatch ? (
+        <mark key={index} className="bg-yellow-300 text-gray-900 px-1 rounded">
+          {segment.text}
+        </mark>
+      ) : segment.text
+    );
+  };
+
+  const { minX, minY, width, height } = layout.bounds;
+
+  return (
+    <div className="p-6">
+      <div ref={layerRef} className="relative" style={{ width: `${width}px`, height: `${height}px` }}>
+        <svg width={width} height={height} className="absolute inset-0 overflow-visible">
+          <g transform={`translate(${-minX}, ${-minY})`}>
+            {layout.edges.map(edge => (
+              <path
+                key={edge.id}
+                d={edge.path}
+                fill="none"
+                stroke={theme.connectorColor}
+                strokeWidth="2"
+              />
+            ))}
+          </g>
+        </svg>
+
+        {layout.nodes.map(node => (
+          <EditableNode
+            key={node.id}
+            node={node}
+            editor={editor}
+            className={`
+              absolute transform -translate-x-1/2 -translate-y-1/2 w-max
+              px-3 py-2 rounded-lg shadow-md select-none
+              transition-shadow duration-300 hover:shadow-lg
+              ${activeNodeId === node.id ? 'ring-4 ring-orange-500' : highlightedNodes?.has(node.id) ? 'ring-4 ring-yellow-400 ring-opacity-50' : ''}
+              ${node.children.length > 0 ? 'cursor-pointer' : ''}
+              ${getNodeStyleClass(node)}
+            `}
+            style={{
+              left: `${node.x - minX}px`,
+              top: `${node.y - minY}px`,
+              minWidth: '80px',
+              maxWidth: '200px',
+              ...getStyledNode(node)
+            }}
+            onClick={() => node.children.length > 0 && onToggleExpand(node.id)}
+            title={getNodeTooltip(node)}
+          >
+            <div className="flex items-center justify-center gap-2">
+              {node.icon && <span className="flex-shrink-0 leading-none">{node.icon}</span>}
+              <NodeIcon name={node.iconName} />
+              <div className="flex flex-col items-center gap-1 min-w-0">
+                {editor?.editingNodeId === node.id ? (
+                  <NodeLabelInput
+                    label={node.label}
+                    onCommit={(label) => editor.onRename(node.id, label)}
+                    onCancel={() => editor.onStartRename(null)}
+                  />
+                ) : (
+                  <span className="font-medium text-sm leading-tight text-center" style={getEmphasisStyle(node)}>
+                    {highlightText(getDisplayLabel(node.label), searchQuery || '')}
+                  </span>
+                )}
+                <NodeMetadata node={node} />
+              </div>
+              {node.priority && <PriorityBadge priority={node.priority} />}
+              {node.note && <StickyNote size={12} className="flex-shrink-0 opacity-75" />}
+              <NodeLink link={node.link} />
+              {node.children.length > 0 && !node.isExpanded && (
+                <span className="flex-shrink-0 px-1.5 rounded-full bg-white bg-opacity-30 text-xs">
+                  +{node.children.length}
+                </span>
+              )}
+            </div>
+          </EditableNode>
+        ))}
+
+        <CrossLinkOverlay containerRef={layerRef} links={crossLinks} layoutKey={layout} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Home, ChevronRight } from 'lucide-react';
+import { MindMapNode } from '../../types/mindmap';
+import { getDisplayLabel } from '../../lib/crossLinks';
+
+interface HoistBreadcrumbsProps {
+  path: MindMapNode[];
+  onHoist: (nodeId: string | null) => void;
+}
+
+/**
+ * Trail from the top of the map to the hoisted node; each step hoists
+ * that ancestor instead, and the home button shows the whole map again.
+ */
+export const HoistBreadcrumbs: React.FC<HoistBreadcrumbsProps> = ({ path, onHoist }) => (
+  <nav
+    aria-label="Focused branch"
+    className="flex items-center gap-1 px-4 py-2 text-sm text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 overflow-x-auto"
+  >
+    <button
+      onClick={() => onHoist(null)}
+      className="p-1 rounded hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors"
+      title="Show the whole map"
+    >
+      <Home size={14} />
+    </button>
+    {path.map((node, index) => {
+      const isCurrent = index === path.length - 1;
+      return (
+        <React.Fragment key={node.id}>
+          <ChevronRight size={14} className="flex-shrink-0 text-gray-400" />
+          <button
+            onClick={() => onHoist(node.id)}
+            disabled={isCurrent}
+            aria-current={isCurrent ? 'location' : undefined}
+            className="px-1 rounded truncate max-w-40 hover:text-blue-600 disabled:font-medium disabled:text-gray-900 disabled:hover:text-gray-900 dark:disabled:text-gray-100 dark:disabled:hover:text-gray-100 transition-colors"
+            title={node.label}
+          >
+            {getDisplayLabel(node.label)}
+          </button>
+        </React.Fragment>
+      );
+    })}
+  </nav>
+);
@@ -3,8 +3,16 @@
 import React, { useEffect, useRef, useState, useMemo, useCallback } from 'react';
 import ForceGraph3D from 'react-force-graph-3d';
 import * as THREE from 'three';
-import { MindMapNode } from '../../types/mindmap';
-import { Search, Home, ChevronRight, Maximize2, Minimize2 } from 'lucide-react';
+import { CameraBookmark, CrossLink, MindMapNode, NodeShape, Vector3 } from '../../types/mindmap';
+import { getDisplayLabel } from '../../lib/crossLinks';
+import { createBookmark, getFlyToPosition, resolveBookmark } from '../../lib/camera3d';
+import { IMPORTANT_COLOR } from '../../lib/nodeStyle';
+import { getSafeLink } from '../../lib/links';
+import { CROSS_LINK_COLOR } from './CrossLinkOverlay';
+import { PriorityBadge } from './NodeMetadata';
+import { AccessibleNodeList } from './AccessibleNodeList';
+import { useNodeFills, useTheme } from './themeContext';
+import { Search, Home, ChevronRight, Maximize2, Minimize2, BookmarkPlus, Bookmark, Play, Square, X, Focus } from 'lucide-react';
 
 interface MindMap3DProps {
   nodes: MindMapNode[];
@@ -12,6 +20,13 @@ interface MindMap3DProps {
   searchQuery?: string;
   highlightedNodes?: Set<string>;
   onRendererReady?: (renderer: any) => void;
+  crossLinks?: CrossLink[];
+  activeNodeId?: string | null;
+  bookmarks?: CameraBookmark[];
+  onBookmarksChange?: (bookmarks: CameraBookmark[]) => void;
+  onHoist?: (nodeId: string) => void;
+  /** Fly the camera between views instead of jumping */
+  animate?: boolean;
 }
 
 interface GraphNode {
@@ -25,12 +40,35 @@ interface GraphNode {
   childCount: number;
   isRoot: boolean;
   branchColor: string;
+  // Written by the force simulation
+  x?: number;
+  y?: number;
+  z?: number;
+  vx?: number;
+  vy?: number;
+  vz?: number;
 }
 
+// Node shapes as solids: pills lie on their side, ellipses are flattened
+// spheres and underlined nodes become a ring
+const createNodeGeometry = (shape: NodeShape | undefined, size: number): THREE.BufferGeometry => {
+  switch (shape) {
+    case 'pill':
+      return new THREE.CapsuleGeometry(size * 0.6, size * 1.4, 4, 12).rotateZ(Math.PI / 2);
+    case 'ellipse':
+      return new THREE.SphereGeometry(size).scale(1.5, 0.8, 0.8);
+    case 'underline':
+      return new THREE.TorusGeometry(size, size * 0.25, 8, 24);
+    default:
+      return new THREE.SphereGeometry(size);
+  }
+};
+
 interface GraphLink {
   source: string;
   target: string;
   isHighlighted: boolean;
+  kind: 'tree' | 'cross';
 }
 
 interface GraphData {
@@ -40,12 +78,26 @@ interface GraphData {
 
 type LayoutMode = 'force' | 'radial';
 
+interface Tour {
+  stops: string[];
+  index: number;
+}
+
+const FLY_DURATION = 1500;
+const TOUR_STEP_MS = 3500;
+
 export const MindMap3D: React.FC<MindMap3DProps> = ({
   nodes,
   onToggleExpand,
   searchQuery,
   highlightedNodes,
-  onRendererReady
+  onRendererReady,
+  crossLinks = [],
+  activeNodeId,
+  bookmarks = [],
+  onBookmarksChange,
+  onHoist,
+  animate = true
 }) => {
   const fgRef = useRef<any>();
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
@@ -55,6 +107,10 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
   const [searchTerm, setSearchTerm] = useState('');
   const [breadcrumbs, setBreadcrumbs] = useState<MindMapNode[]>([]);
   const [isZoomedOut, setIsZoomedOut] = useState(false);
+  const [tour, setTour] = useState<Tour | null>(null);
+  // Simulated graph nodes by id, so positions survive graph data rebuilds
+  const positionsRef = useRef(new Map<string, GraphNode>());
+  const flyTimerRef = useRef<number>();
 
   // Expose renderer for export functionality
   useEffect(() => {
@@ -97,42 +153,9 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
     return () => clearInterval(interval);
   }, []);
 
-  // Get branch colors for first-level nodes
-  const getBranchColors = useMemo(() => {
-    // Sophisticated color palette with better contrast and visual appeal
-    const branchColors = [
-      { primary: '#3b82f6', secondary: '#1d4ed8', tertiary: '#93c5fd' }, // Blue family
-      { primary: '#14b8a6', secondary: '#0f766e', tertiary: '#5eead4' }, // Teal family
-      { primary: '#f97316', secondary: '#c2410c', tertiary: '#fed7aa' }, // Orange family
-      { primary: '#a855f7', secondary: '#7c3aed', tertiary: '#c4b5fd' }, // Purple family
-      { primary: '#22c55e', secondary: '#15803d', tertiary: '#86efac' }, // Green family
-      { primary: '#ec4899', secondary: '#be185d', tertiary: '#f9a8d4' }, // Pink family
-      { primary: '#8b5cf6', secondary: '#6d28d9', tertiary: '#c4b5fd' }, // Violet family
-      { primary: '#06b6d4', secondary: '#0891b2', tertiary: '#67e8f9' }, // Cyan family
-      { primary: '#84cc16', secondary: '#65a30d', tertiary: '#bef264' }, // Lime family
-      { primary: '#f59e0b', secondary: '#d97706', tertiary: '#fcd34d' }, // Amber family
-      { primary: '#ef4444', secondary: '#dc2626', tertiary: '#fca5a5' }, // Red family
-      { primary: '#6366f1', secondary: '#4f46e5', tertiary: '#a5b4fc' }, // Indigo family
-      { primary: '#10b981', secondary: '#059669', tertiary: '#6ee7b7' }, // Emerald family
-      { primary: '#f472b6', secondary: '#e879f9', tertiary: '#f0abfc' }, // Fuchsia family
-      { primary: '#06b6d4', secondary: '#0284c7', tertiary: '#7dd3fc' }, // Sky family
-    ];
-    
-    const branchMap = new Map<string, string>();
-    const levelColorMap = new Map<string, { level: number; branchIndex: number }>();
-    
-    nodes.forEach((rootNode, index) => {
-      const branchIndex = index % branchColors.length;
-      const assignBranchColor = (node: MindMapNode, level: number = 0) => {
-        levelColorMap.set(node.id, { level, branchIndex });
-        branchMap.set(node.id, branchColors[branchIndex].primary);
-        node.children.forEach(child => assignBranchColor(child));
-      };
-      assignBranchColor(rootNode);
-    });
-    
-    return { branchMap, levelColorMap, branchColors };
-  }, [nodes]);
+  // Node fills follow the shared theme so the 3D view matches the 2D views
+  const theme = useTheme();
+  const fills = useNodeFills(nodes);
 
   // Find breadcrumb path to selected node
   const findBreadcrumbPath = useCallback((nodeId: string): MindMapNode[] => {
@@ -156,10 +179,12 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
     return path;
   }, [nodes]);
 
-  // Update breadcrumbs when selected node changes
+  // Update breadcrumbs when selected node changes, dropping a selection whose node was deleted
   useEffect(() => {
     if (selectedNode) {
-      setBreadcrumbs(findBreadcrumbPath(selectedNode));
+      const path = findBreadcrumbPath(selectedNode);
+      if (path.length === 0) setSelectedNode(null);
+      setBreadcrumbs(path);
     } else {
       setBreadcrumbs([]);
     }
@@ -174,28 +199,13 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
       if (isSelected) return '#ff6b6b';
       if (isHovered) return '#ffd93d';
       if (isHighlighted) return '#ffd93d';
-      
-      const levelInfo = getBranchColors.levelColorMap.get(node.id);
-      if (!levelInfo) return '#64748b';
-      
-      const colorFamily = getBranchColors.branchColors[levelInfo.branchIndex];
-      
-      // Use different shades based on level for visual hierarchy
-      switch (levelInfo.level) {
-        case 0: return colorFamily.primary;   // Root nodes - primary color
-        case 1: return colorFamily.secondary; // First level - darker shade
-        case 2: return colorFamily.tertiary;  // Second level - lighter shade
-        default: 
-          // For deeper levels, create a gradient effect
-          const depth = Math.min(levelInfo.level - 2, 3);
-          const opacity = Math.max(0.6 - (depth * 0.1), 0.3);
-          return `${colorFamily.secondary}${Math.floor(opacity * 255).toString(16).padStart(2, '0')}`;
-      }
+      if (node.background || node.color) return node.background ?? node.color as string;
+      return fills.get(node.id) ?? theme.rootColor;
     };
 
-    const getNodeSize = (node: MindMapNode) => {
+    const getNodeSize = (node: MindMapNode, isRoot: boolean) => {
       const childCount = node.children.length;
-      const baseSize = node.level === 0 ? 12 : 8;
+      const baseSize = isRoot ? 12 : 8;
       const childBonus = Math.min(childCount * 2, 8);
       const levelPenalty = Math.max(node.level * 1, 0);
       return Math.max(baseSize + childBonus - levelPenalty, 4);
@@ -215,19 +225,28 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
       const isSelected = selectedNode === node.id;
       const isHovered = hoveredNode === node.id;
       const childCount = countAllChildren(node);
+      // Top of the shown tree, which is not a level 0 node while a branch is hoisted
+      const isRoot = parentId === undefined;
       
       const graphNode: GraphNode = {
         id: node.id,
-        name: node.label,
+        name: getDisplayLabel(node.label),
         level: node.level,
         color: getNodeColor(node, isHighlighted, isSelected, isHovered),
-        size: getNodeSize(node),
+        size: getNodeSize(node, isRoot),
         isHighlighted,
         originalNode: node,
         childCount,
-        isRoot: node.level === 0,
-        branchColor: getBranchColors.branchMap.get(node.id) || '#64748b'
+        isRoot,
+        branchColor: fills.get(node.id) ?? theme.rootColor
       };
+      
+      // Start from the last simulated position instead of re-running the layout from scratch
+      const previous = positionsRef.current.get(node.id);
+      if (previous) {
+        const { x, y, z, vx, vy, vz } = previous;
+        Object.assign(graphNode, { x, y, z, vx, vy, vz });
+      }
 
       graphNodes.push(graphNode);
 
@@ -237,7 +256,8 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
         graphLinks.push({
           source: parentId,
           target: node.id,
-          isHighlighted: isLinkHighlighted
+          isHighlighted: isLinkHighlighted,
+          kind: 'tree'
         });
       }
 
@@ -254,27 +274,112 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
       processNode(rootNode);
     });
 
+    // Cross-links between visible nodes
+    const visibleIds = new Set(graphNodes.map(node => node.id));
+    crossLinks.forEach(link => {
+      if (!visibleIds.has(link.sourceId) || !visibleIds.has(link.targetId)) return;
+      graphLinks.push({
+        source: link.sourceId,
+        target: link.targetId,
+        isHighlighted: selectedNode === link.sourceId || selectedNode === link.targetId,
+        kind: 'cross'
+      });
+    });
+
+    positionsRef.current = new Map(graphNodes.map(graphNode => [graphNode.id, graphNode]));
     return { nodes: graphNodes, links: graphLinks };
-  }, [nodes, highlightedNodes, selectedNode, hoveredNode, searchTerm, getBranchColors]);
+  }, [nodes, highlightedNodes, selectedNode, hoveredNode, searchTerm, fills, theme, crossLinks]);
+
+  const getNodePosition = useCallback((nodeId: string): Vector3 | null => {
+    const node = positionsRef.current.get(nodeId);
+    if (node?.x === undefined || node.y === undefined || node.z === undefined) return null;
+    return { x: node.x, y: node.y, z: node.z };
+  }, []);
+
+  // Fly the camera to a node's simulated position, retrying briefly while
+  // a freshly revealed node is still being laid out
+  const flyDuration = animate ? FLY_DURATION : 0;
+
+  const flyToNode = useCallback((nodeId: string) => {
+    window.clearTimeout(flyTimerRef.current);
+    
+    const attempt = (remaining: number) => {
+      const position = getNodePosition(nodeId);
+      if (position && fgRef.current) {
+        fgRef.current.cameraPosition(getFlyToPosition(position), position, flyDuration);
+      } else if (remaining > 0) {
+        flyTimerRef.current = window.setTimeout(() => attempt(remaining - 1), 200);
+      }
+    };
+    attempt(10);
+  }, [getNodePosition, flyDuration]);
+
+  useEffect(() => {
+    return () => window.clearTimeout(flyTimerRef.current);
+  }, []);
+
+  // Follow the active match of the global search
+  useEffect(() => {
+    if (!activeNodeId) return;
+    setSelectedNode(activeNodeId);
+    flyToNode(activeNodeId);
+  }, [activeNodeId, flyToNode]);
+
+  // Advance the tour one stop at a time
+  useEffect(() => {
+    if (!tour) return;
+    const nodeId = tour.stops[tour.index];
+    setSelectedNode(nodeId);
+    flyToNode(nodeId);
+    
+    const timer = window.setTimeout(() => {
+      setTour(current => current && current.index + 1 < current.stops.length
+        ? { ...current, index: current.index + 1 }
+        : null);
+    }, TOUR_STEP_MS);
+    return () => window.clearTimeout(timer);
+  }, [tour, flyToNode]);
+
+  // Tour the search matches, or the main branches when nothing is searched
+  const startTour = () => {
+    const matches = graphData.nodes.filter(node => highlightedNodes?.has(node.id));
+    const stops = (matches.length > 0 ? matches : graphData.nodes.filter(node => node.level <= 1)).map(node => node.id);
+    if (stops.length > 0) setTour({ stops, index: 0 });
+  };
+
+  const saveBookmark = () => {
+    if (!fgRef.current || !onBookmarksChange) return;
+    const { x, y, z } = fgRef.current.camera().position;
+    const target = fgRef.current.controls().target;
+    const anchorNode = selectedNode ? graphData.nodes.find(node => node.id === selectedNode) : undefined;
+    const anchorPosition = anchorNode ? getNodePosition(anchorNode.id) : null;
+    
+    onBookmarksChange([
+      ...bookmarks,
+      createBookmark(
+        anchorNode?.name ?? `View ${bookmarks.length + 1}`,
+        { x, y, z },
+        { x: target.x, y: target.y, z: target.z },
+        anchorNode && anchorPosition ? { nodeId: anchorNode.id, position: anchorPosition } : undefined
+      )
+    ]);
+  };
+
+  const goToBookmark = (bookmark: CameraBookmark) => {
+    const anchorPosition = bookmark.nodeId ? getNodePosition(bookmark.nodeId) : null;
+    const view = resolveBookmark(bookmark, anchorPosition ?? undefined);
+    if (!view || !fgRef.current) return;
+    
+    setTour(null);
+    if (bookmark.nodeId) setSelectedNode(bookmark.nodeId);
+    fgRef.current.cameraPosition(view.position, view.lookAt, flyDuration);
+  };
 
   const handleNodeClick = useCallback((node: any) => {
     const graphNode = node as GraphNode;
     setSelectedNode(graphNode.id);
-    
-    // Center camera on clicked node with smooth animation
-    if (fgRef.current) {
-      const distance = 150;
-      fgRef.current.cameraPosition(
-        { 
-          x: node.x + distance, 
-          y: node.y + distance, 
-          z: node.z + distance 
-        },
-        node,
-        1500
-      );
-    }
-  }, []);
+    flyToNode(graphNode.id);
+  }, [flyToNode]);
 
   const handleNodeDoubleClick = useCallback((node: any) => {
     const graphNode = node as GraphNode;
@@ -290,22 +395,15 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
   const handleSearch = useCallback((nodeId: string) => {
     setSelectedNode(nodeId);
     setSearchTerm('');
-    
-    // Find the node in graph data and center on it
-    const targetNode = graphData.nodes.find(n => n.id === nodeId);
-    if (targetNode && fgRef.current) {
-      // Simulate node position for centering
-      setTimeout(() => {
-        if (fgRef.current) {
-          fgRef.current.cameraPosition(
-            { x: 100, y: 100, z: 100 },
-            { x: 0, y: 0, z: 0 },
-            1500
-          );
-        }
-      }, 100);
-    }
-  }, [graphData.nodes]);
+    flyToNode(nodeId);
+  }, [flyToNode]);
+
+  // Keyboard users walk the node list; the camera follows the focused node
+  const handleListFocus = useCallback((nodeId: string | null) => {
+    if (!nodeId) return;
+    setSelectedNode(nodeId);
+    flyToNode(nodeId);
+  }, [flyToNode]);
 
   const searchResults = useMemo(() => {
     if (!searchTerm.trim()) return [];
@@ -315,12 +413,13 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
   }, [graphData.nodes, searchTerm]);
 
   const resetView = useCallback(() => {
+    setTour(null);
     setSelectedNode(null);
     setSearchTerm('');
     if (fgRef.current) {
-      fgRef.current.zoomToFit(1000);
+      fgRef.current.zoomToFit(animate ? 1000 : 0);
     }
-  }, []);
+  }, [animate]);
 
   if (nodes.length === 0) {
     return (
@@ -335,7 +434,14 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
   }
 
   return (
-    <div className="w-full h-full relative bg-gray-900 rounded-lg overflow-hidden">
+    <div className="w-full h-full relative rounded-lg overflow-hidden" style={{ backgroundColor: theme.background }}>
+      <AccessibleNodeList
+        nodes={nodes}
+        onToggleExpand={onToggleExpand}
+        onFocusNode={handleListFocus}
+        label="3D mind map nodes"
+      />
+
       {/* Top Controls */}
       <div className="absolute top-4 left-4 right-4 z-10 flex items-center justify-between">
         {/* Search */}
@@ -395,6 +501,24 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
             </button>
           </div>
           
+          {onBookmarksChange && (
+            <button
+              onClick={saveBookmark}
+              className="p-2 bg-black bg-opacity-70 text-gray-300 hover:text-white rounded-lg transition-colors"
+              title="Bookmark this view"
+            >
+              <BookmarkPlus size={16} />
+            </button>
+          )}
+          
+          <button
+            onClick={() => (tour ? setTour(null) : startTour())}
+            className="p-2 bg-black bg-opacity-70 text-gray-300 hover:text-white rounded-lg transition-colors"
+            title={tour ? 'Stop tour' : 'Tour search matches (or main branches)'}
+          >
+            {tour ? <Square size={16} /> : <Play size={16} />}
+          </button>
+          
           <button
             onClick={resetView}
             className="p-2 bg-black bg-opacity-70 text-gray-300 hover:text-white rounded-lg transition-colors"
@@ -432,16 +556,57 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
           {(() => {
             const node = graphData.nodes.find(n => n.id === (selectedNode || hoveredNode));
             if (!node) return null;
+            const link = getSafeLink(node.originalNode.link);
             
             return (
               <div>
-                <div className="font-medium text-lg mb-2 break-words">{node.name}</div>
+                <div className="font-medium text-lg mb-2 break-words">
+                  {node.originalNode.icon && <span className="mr-2">{node.originalNode.icon}</span>}
+                  {node.name}
+                </div>
+                {(node.originalNode.priority || node.originalNode.tags) && (
+                  <div className="flex flex-wrap items-center gap-1 mb-2">
+                    {node.originalNode.priority && <PriorityBadge priority={node.originalNode.priority} />}
+                    {node.originalNode.tags?.map(tag => (
+                      <span key={tag} className="px-1.5 rounded-full text-xs bg-white bg-opacity-20">#{tag}</span>
+                    ))}
+                  </div>
+                )}
                 <div className="space-y-1 text-sm text-gray-300">
                   <div>Level: {node.level}</div>
                   <div>Children: {node.originalNode.children.length}</div>
                   <div>Total descendants: {node.childCount}</div>
                   {node.isRoot && <div className="text-yellow-400">Root Node</div>}
+                  {Object.entries(node.originalNode.properties ?? {}).map(([key, value]) => (
+                    <div key={key}>
+                      <span className="text-gray-400">{key}:</span> {value}
+                    </div>
+                  ))}
                 </div>
+                {link && (
+                  <a
+                    href={link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-2 block text-sm text-blue-400 hover:text-blue-300 truncate"
+                  >
+                    {link}
+                  </a>
+                )}
+                {node.originalNode.note && (
+                  <div className="mt-2 text-sm text-gray-200 whitespace-pre-wrap break-words border-t border-gray-700 pt-2">
+                    {node.originalNode.note}
+                  </div>
+                )}
+                {onHoist && selectedNode === node.id && node.originalNode.children.length > 0 && (
+                  <button
+                    onClick={() => onHoist(node.id)}
+                    className="mt-3 flex items-center gap-1 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+                  >
+                    <Focus size={14} />
+                    Focus on this branch
+                  </button>
+                )}
                 {selectedNode === node.id && (
                   <div className="mt-3 text-xs text-gray-400">
                     Click: Select • Double-click: Expand/Collapse
@@ -453,6 +618,36 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
         </div>
       )}
 
+      {/* Bookmarks and tour progress */}
+      {(bookmarks.length > 0 || tour) && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex flex-wrap items-center justify-center gap-2 max-w-lg bg-black bg-opacity-70 text-white p-2 rounded-lg text-sm">
+          {tour && (
+            <span className="px-2 text-yellow-400">
+              Tour {tour.index + 1} of {tour.stops.length}
+            </span>
+          )}
+          {bookmarks.map(bookmark => (
+            <span key={bookmark.id} className="flex items-center bg-white bg-opacity-10 rounded">
+              <button
+                onClick={() => goToBookmark(bookmark)}
+                className="flex items-center gap-1 pl-2 py-1 hover:text-blue-400 transition-colors truncate max-w-32"
+                title={bookmark.nodeId ? `View around ${bookmark.name}` : bookmark.name}
+              >
+                <Bookmark size={12} className="flex-shrink-0" />
+                {bookmark.name}
+              </button>
+              <button
+                onClick={() => onBookmarksChange?.(bookmarks.filter(item => item.id !== bookmark.id))}
+                className="px-1.5 py-1 text-gray-400 hover:text-red-400 transition-colors"
+                title="Remove bookmark"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Stats */}
       <div className="absolute bottom-4 left-4 z-10 bg-black bg-opacity-70 text-white p-3 rounded-lg text-sm">
         <div className="space-y-1">
@@ -494,23 +689,17 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
           const graphNode = node as GraphNode;
           return isZoomedOut && !graphNode.isRoot ? Math.max(graphNode.size * 0.5, 2) : graphNode.size;
         }}
-        linkColor={(link: any) => (link as GraphLink).isHighlighted ? '#ffd93d' : '#64748b'}
         linkColor={(link: any) => {
           if ((link as GraphLink).isHighlighted) return '#ffd93d';
-          
-          // Use branch color for links to create visual continuity
-          const sourceNode = graphData.nodes.find(n => n.id === link.source);
-          if (sourceNode) {
-            const levelInfo = getBranchColors.levelColorMap.get(sourceNode.id);
-            if (levelInfo) {
-              const colorFamily = getBranchColors.branchColors[levelInfo.branchIndex];
-              return colorFamily.tertiary;
-            }
-          }
-          return '#64748b';
+          if ((link as GraphLink).kind === 'cross') return CROSS_LINK_COLOR;
+          return theme.connectorColor;
         }}
         linkWidth={(link: any) => (link as GraphLink).isHighlighted ? 4 : 2}
         linkOpacity={(link: any) => (link as GraphLink).isHighlighted ? 1 : 0.6}
+        linkCurvature={(link) => (link as GraphLink).kind === 'cross' ? 0.35 : 0}
+        linkDirectionalArrowLength={(link) => (link as GraphLink).kind === 'cross' ? 4 : 0}
+        linkDirectionalArrowRelPos={1}
+        linkDirectionalArrowColor={() => CROSS_LINK_COLOR}
         onNodeClick={handleNodeClick}
         onNodeRightClick={handleNodeDoubleClick}
         onNodeHover={handleNodeHover}
@@ -522,8 +711,10 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
         nodeThreeObject={(node: any) => {
           const graphNode = node as GraphNode;
           
-          // Create main sphere with glow effect
-          const geometry = new THREE.SphereGeometry(graphNode.size);
+          const { shape, bold, italic, important } = graphNode.originalNode;
+
+          // Create main shape with glow effect
+          const geometry = createNodeGeometry(shape, graphNode.size);
           const material = new THREE.MeshLambertMaterial({ 
             color: graphNode.color,
             transparent: true,
@@ -531,18 +722,21 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
           });
           const sphere = new THREE.Mesh(geometry, material);
 
+          // Important nodes keep a halo whether or not they are selected
+          if (important) {
+            const halo = new THREE.Mesh(
+              new THREE.SphereGeometry(graphNode.size * 1.8, 12, 8),
+              new THREE.MeshBasicMaterial({ color: IMPORTANT_COLOR, wireframe: true, transparent: true, opacity: 0.6 })
+            );
+            sphere.add(halo);
+          }
+
           // Add glow effect for selected/hovered nodes
           if (selectedNode === graphNode.id || hoveredNode === graphNode.id) {
             const glowGeometry = new THREE.SphereGeometry(graphNode.size * 1.5);
             
-            // Use complementary color for glow effect
-            let glowColor = graphNode.color;
-            const levelInfo = getBranchColors.levelColorMap.get(graphNode.id);
-            if (levelInfo) {
-              const colorFamily = getBranchColors.branchColors[levelInfo.branchIndex];
-              glowColor = selectedNode === graphNode.id ? colorFamily.tertiary : colorFamily.secondary;
-            }
-            
+            const glowColor = graphNode.branchColor;
+
             const glowMaterial = new THREE.MeshBasicMaterial({
               color: glowColor,
               transparent: true,
@@ -566,30 +760,22 @@ export const MindMap3D: React.FC<MindMap3DProps> = ({
           }
 
           // Add text label for root nodes or selected node
-          if (graphNode.isRoot || selectedNode === graphNode.id || (!isZoomedOut && graphNode.level <= 2)) {
+          if (graphNode.isRoot || important || selectedNode === graphNode.id || (!isZoomedOut && graphNode.level <= 2)) {
             const canvas = document.createElement('canvas');
             const context = canvas.getContext('2d');
             if (context) {
               canvas.width = 512;
               canvas.height = 128;
               
-              // Background
-              const levelInfo = getBranchColors.levelColorMap.get(graphNode.id);
-              let bgColor = 'rgba(0, 0, 0, 0.8)';
-              let textColor = 'white';
-              
-              if (levelInfo && graphNode.isRoot) {
-                const colorFamily = getBranchColors.branchColors[levelInfo.branchIndex];
-                bgColor = `${colorFamily.primary}dd`; // Add transparency
-                textColor = 'white';
-              }
-              
-              context.fillStyle = bgColor;
+              // Background, in the node's own fill for roots
+              context.globalAlpha = graphNode.isRoot ? 0.87 : 0.8;
+              context.fillStyle = graphNode.isRoot ? graphNode.branchColor : 'black';
               context.fillRect(0, 0, canvas.width, canvas.height);
+              context.globalAlpha = 1;
               
               // Text
-              context.fillStyle = textColor;
-              context.font = `${graphNode.isRoot ? '24' : '18'}px Arial`;
+              context.fillStyle = graphNode.isRoot ? theme.nodeTextColor : 'white';
+              context.font = `${italic ? 'italic ' : ''}${bold ? 'bold ' : ''}${graphNode.isRoot ? '24' : '18'}px ${theme.fontFamily}`;
               context.textAlign = 'center';
               context.textBaseline = 'middle';
               
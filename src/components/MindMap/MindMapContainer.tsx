@@ -1,69 +1,239 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useRef } from 'react';
-import { parseTextToMindMap, searchNodes, flattenNodes } from '../../lib/parser';
-import { MindMapNode, ViewMode, LayoutType, VisualizationType } from '../../types/mindmap';
+import {
+  searchNodes,
+  flattenNodes,
+  applyCollapsedPaths,
+  expandAncestors,
+  filterNodes,
+  updateNode,
+  setExpansion,
+  getMaxDepth,
+  findNodePath,
+  detectInputFormat
+} from '../../lib/parser';
+import { ImportedMindMap, importMindMapFile } from '../../lib/importUtils';
+import { exportToJSON } from '../../lib/exportUtils';
+import { resolveCrossLinks } from '../../lib/crossLinks';
+import { reconcileNodes } from '../../lib/reconcile';
+import { TextEdit, renameNode, addChildNode, addSiblingNode, deleteNode, moveNode, setNodeStyle } from '../../lib/textEditing';
+import { DEFAULT_THEME, loadCustomThemes, saveCustomThemes } from '../../lib/themes';
+import { MindMapNode, ViewMode, LayoutType, VisualizationType, InputFormat, NodeEditor, CameraBookmark, MindMapTheme } from '../../types/mindmap';
 import { Controls } from './Controls';
 import { TextInput } from './TextInput';
 import { MindMapVisualization } from './MindMapVisualization';
 import { MindMap3D } from './MindMap3D';
+import { useParsedText } from './useParsedText';
+import { HoistBreadcrumbs } from './HoistBreadcrumbs';
+import { ThemeContext } from './themeContext';
 
 export const MindMapContainer: React.FC = () => {
   const [inputText, setInputText] = useState('');
+  const [inputFormat, setInputFormat] = useState<InputFormat>('auto');
   const [nodes, setNodes] = useState<MindMapNode[]>([]);
+  // Text and format the current nodes were parsed from, whose line numbers they carry
+  const [nodesSource, setNodesSource] = useState<{ text: string; format: InputFormat } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [activeMatchIndex, setActiveMatchIndex] = useState(0);
+  const [isFilterActive, setIsFilterActive] = useState(false);
+  const [includeDescendants, setIncludeDescendants] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('split');
   const [layoutType, setLayoutType] = useState<LayoutType>('tree');
   const [visualizationType, setVisualizationType] = useState<VisualizationType>('2d');
   const mindMapRef = useRef<HTMLDivElement>(null);
   const [threejsRenderer, setThreejsRenderer] = useState<any>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [cameraBookmarks, setCameraBookmarks] = useState<CameraBookmark[]>([]);
+  // Last import, whose expansion state is applied once its own text is parsed
+  const pendingImportRef = useRef<ImportedMindMap | null>(null);
+  const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
+  // Line of a node edited from the map, revealed (and optionally renamed) once parsed
+  const revealLineRef = useRef<number | null>(null);
+  const renameLineRef = useRef<number | null>(null);
+  // Node shown as the temporary root of every view
+  const [hoistedNodeId, setHoistedNodeId] = useState<string | null>(null);
+  // Motion starts off for people who asked their system for reduced motion
+  const [animationsEnabled, setAnimationsEnabled] = useState(
+    () => !window.matchMedia('(prefers-reduced-motion: reduce)').matches
+  );
+  const [theme, setTheme] = useState<MindMapTheme>(DEFAULT_THEME);
+  const [customThemes, setCustomThemes] = useState(loadCustomThemes);
   
-  // Parse text to mind map
+  // Parse text to mind map, keeping node ids and expansion state across edits
+  const parsed = useParsedText(inputText, inputFormat);
   useEffect(() => {
-    if (inputText.trim()) {
-      const parsedNodes = parseTextToMindMap(inputText);
-      setNodes(parsedNodes);
+    if (!parsed) return;
+    setNodesSource({ text: parsed.text, format: parsed.format });
+    if (parsed.text.trim()) {
+      const pendingImport = pendingImportRef.current;
+      const collapsedPaths = pendingImport?.text === parsed.text ? new Set(pendingImport.collapsedPaths) : null;
+      const revealLine = revealLineRef.current;
+      if (collapsedPaths) pendingImportRef.current = null;
+      revealLineRef.current = null;
+      setNodes(prevNodes => {
+        if (collapsedPaths) return applyCollapsedPaths(parsed.nodes, collapsedPaths);
+        const reconciled = reconcileNodes(prevNodes, parsed.nodes);
+        return revealLine === null
+          ? reconciled
+          : expandAncestors(reconciled, node => node.lineNumber === revealLine);
+      });
     } else {
       setNodes([]);
     }
-  }, [inputText]);
+  }, [parsed]);
+  
+  // Start renaming a node added from the map as soon as it appears
+  useEffect(() => {
+    const lineNumber = renameLineRef.current;
+    if (lineNumber === null) return;
+    renameLineRef.current = null;
+    const added = flattenNodes(nodes).find(node => node.lineNumber === lineNumber);
+    if (added) setEditingNodeId(added.id);
+  }, [nodes]);
+  
+  // Hoisting narrows the map to one branch; it lifts again once that node is gone
+  const hoistPath = useMemo(
+    () => (hoistedNodeId ? findNodePath(nodes, hoistedNodeId) : []),
+    [nodes, hoistedNodeId]
+  );
+  const hoistedNode = hoistPath[hoistPath.length - 1];
+  const scopeNodes = useMemo(() => (hoistedNode ? [hoistedNode] : nodes), [hoistedNode, nodes]);
+  const maxDepth = useMemo(() => getMaxDepth(scopeNodes), [scopeNodes]);
   
   // Search functionality
-  const searchResults = useMemo(() => {
-    if (!searchQuery.trim()) return new Set<string>();
-    const results = searchNodes(nodes, searchQuery);
-    return new Set(results.map(node => node.id));
-  }, [nodes, searchQuery]);
-  
-  const handleToggleExpand = (nodeId: string) => {
-    const toggleNode = (nodeList: MindMapNode[]): MindMapNode[] => {
-      return nodeList.map(node => {
-        if (node.id === nodeId) {
-          return { ...node, isExpanded: !node.isExpanded };
-        }
-        if (node.children.length > 0) {
-          return { ...node, children: toggleNode(node.children) };
-        }
-        return node;
-      });
-    };
-    
-    setNodes(prevNodes => toggleNode(prevNodes));
+  const searchMatches = useMemo(() => searchNodes(scopeNodes, searchQuery), [scopeNodes, searchQuery]);
+  const searchResults = useMemo(() => new Set(searchMatches.map(node => node.id)), [searchMatches]);
+  
+  const currentMatchIndex = Math.min(activeMatchIndex, Math.max(searchMatches.length - 1, 0));
+  const activeMatchId = searchMatches[currentMatchIndex]?.id ?? null;
+  
+  // Reveal the active match when it sits inside collapsed branches
+  useEffect(() => {
+    if (!activeMatchId) return;
+    setNodes(prevNodes => expandAncestors(prevNodes, node => node.id === activeMatchId));
+  }, [activeMatchId]);
+  
+  // Filter mode shows only matches and their ancestor paths, in every view and export
+  const isFiltering = isFilterActive && searchQuery.trim() !== '';
+  const visibleNodes = useMemo(
+    () => (isFiltering ? filterNodes(scopeNodes, searchResults, includeDescendants) : scopeNodes),
+    [isFiltering, scopeNodes, searchResults, includeDescendants]
+  );
+  
+  // Open up every match when filtering starts or the query changes
+  useEffect(() => {
+    if (!isFiltering) return;
+    setNodes(prevNodes => {
+      const matchIds = new Set(searchNodes(prevNodes, searchQuery).map(node => node.id));
+      return expandAncestors(prevNodes, node => matchIds.has(node.id));
+    });
+  }, [isFiltering, searchQuery]);
+  
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query);
+    setActiveMatchIndex(0);
   };
   
-  const handleExport = () => {
-    const dataStr = JSON.stringify(nodes, (key, value) => {
-      if (key === 'parent') {
-        return undefined;
+  const stepMatch = (step: number) => {
+    const count = searchMatches.length;
+    if (count === 0) return;
+    setActiveMatchIndex((currentMatchIndex + step + count) % count);
+  };
+  
+  // Resolve [[wiki-links]] between nodes
+  const crossLinkResult = useMemo(() => resolveCrossLinks(nodes), [nodes]);
+  
+  const handleToggleExpand = useCallback((nodeId: string) => {
+    setNodes(prevNodes => updateNode(prevNodes, nodeId, node => ({ ...node, isExpanded: !node.isExpanded })));
+  }, []);
+  
+  // Expand or collapse the whole map, or only the hoisted branch, by depth below its top
+  const applyExpansion = (shouldExpand: (depth: number) => boolean) => {
+    const expandNodes = (nodeList: MindMapNode[]) => setExpansion(nodeList, (_node, depth) => shouldExpand(depth));
+    setNodes(prevNodes => (hoistedNode
+      ? updateNode(prevNodes, hoistedNode.id, node => expandNodes([node])[0])
+      : expandNodes(prevNodes)));
+  };
+  
+  const handleHoist = useCallback((nodeId: string | null) => {
+    // Moving back out keeps the branch being left in sight
+    const leftNodeId = nodeId === null || hoistPath.some(node => node.id === nodeId) ? hoistedNodeId : null;
+    setHoistedNodeId(nodeId);
+    setNodes(prevNodes => {
+      const opened = nodeId
+        ? updateNode(prevNodes, nodeId, node => (node.isExpanded ? node : { ...node, isExpanded: true }))
+        : prevNodes;
+      return leftNodeId ? expandAncestors(opened, node => node.id === leftNodeId) : opened;
+    });
+  }, [hoistPath, hoistedNodeId]);
+  
+  // Latest text and nodes for the editor, whose callbacks stay stable so memoized nodes skip re-rendering
+  const editSourceRef = useRef({ inputText, nodesSource, nodes });
+  useEffect(() => {
+    editSourceRef.current = { inputText, nodesSource, nodes };
+  }, [inputText, nodesSource, nodes]);
+  
+  // Visual edits rewrite the input text, which stays the single source of truth
+  const nodeEditor = useMemo((): NodeEditor => {
+    const applyTextEdit = (
+      createEdit: (text: string, format: InputFormat, nodes: MindMapNode[]) => TextEdit | null,
+      { reveal = false, rename = false } = {}
+    ) => {
+      // Nodes locate their lines in the text they were parsed from, so edits wait
+      // until the latest text has been parsed rather than rewrite the wrong lines
+      const { inputText: text, nodesSource: source, nodes: currentNodes } = editSourceRef.current;
+      if (!source || source.text !== text) return;
+      const edit = createEdit(source.text, source.format, currentNodes);
+      if (!edit) return;
+      if (reveal) revealLineRef.current = edit.lineNumber;
+      if (rename) renameLineRef.current = edit.lineNumber;
+      editSourceRef.current = { ...editSourceRef.current, inputText: edit.text };
+      setInputText(edit.text);
+    };
+
+    return {
+      editingNodeId,
+      onStartRename: setEditingNodeId,
+      onRename: (nodeId, label) => {
+        setEditingNodeId(null);
+        applyTextEdit((text, format, current) => renameNode(text, format, current, nodeId, label));
+      },
+      onAddChild: (nodeId) => {
+        applyTextEdit((text, format, current) => addChildNode(text, format, current, nodeId), { reveal: true, rename: true });
+      },
+      onAddSibling: (nodeId) => {
+        applyTextEdit((text, format, current) => addSiblingNode(text, format, current, nodeId), { reveal: true, rename: true });
+      },
+      onDelete: (nodeId) => {
+        applyTextEdit((text, _format, current) => deleteNode(text, current, nodeId));
+      },
+      onMove: (nodeId, targetId) => {
+        applyTextEdit((text, format, current) => moveNode(text, format, current, nodeId, targetId), { reveal: true });
+      },
+      onHoist: handleHoist,
+      onStyle: (nodeId, style) => {
+        applyTextEdit((text, format, current) => setNodeStyle(text, format, current, nodeId, style));
       }
-      return value;
-    }, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'mindmap.json';
-    link.click();
-    URL.revokeObjectURL(url);
+    };
+  }, [editingNodeId, handleHoist]);
+  
+  const handleExport = () => {
+    exportToJSON(visibleNodes, { filename: 'mindmap.json' });
+  };
+  
+  const handleImportFile = async (file: File) => {
+    try {
+      const imported = await importMindMapFile(file);
+      pendingImportRef.current = imported;
+      // Imported labels are escaped, so the text is detected as indented text
+      // and later pastes keep being detected; a root named "mindmap" still needs 'plain'
+      setInputFormat(detectInputFormat(imported.text) === 'plain' ? 'auto' : 'plain');
+      setInputText(imported.text);
+      setImportError(null);
+    } catch (err) {
+      console.error('Import failed:', err);
+      setImportError(err instanceof Error ? err.message : 'Failed to import file.');
+    }
   };
   
   const handleCopy = async () => {
@@ -75,70 +245,123 @@ export const MindMapContainer: React.FC = () => {
     }
   };
   
+  // Tailwind's dark variants key off a class on the document
+  useEffect(() => {
+    document.documentElement.classList.toggle('dark', theme.mode === 'dark');
+  }, [theme.mode]);
+  
+  const handleCustomThemesChange = (themes: MindMapTheme[]) => {
+    setCustomThemes(themes);
+    saveCustomThemes(themes);
+  };
+  
   const handleReset = () => {
     setInputText('');
     setSearchQuery('');
+    setHoistedNodeId(null);
     setNodes([]);
   };
   
-  const nodeCount = flattenNodes(nodes).length;
+  const nodeCount = useMemo(() => flattenNodes(nodes).length, [nodes]);
+  const visibleNodeCount = useMemo(
+    () => (isFiltering || hoistedNode ? flattenNodes(visibleNodes).length : undefined),
+    [isFiltering, hoistedNode, visibleNodes]
+  );
   
   return (
-    <div className="h-screen flex flex-col bg-gray-50">
-      <Controls
-        searchQuery={searchQuery}
-        onSearchChange={setSearchQuery}
-        onExport={handleExport}
-        onCopy={handleCopy}
-        onReset={handleReset}
-        viewMode={viewMode}
-        onViewModeChange={setViewMode}
-        layoutType={layoutType}
-        onLayoutChange={setLayoutType}
-        visualizationType={visualizationType}
-        onVisualizationChange={setVisualizationType}
-        nodeCount={nodeCount}
-        nodes={nodes}
-        inputText={inputText}
-        mindMapRef={mindMapRef}
-        threejsRenderer={threejsRenderer}
-      />
+    <ThemeContext.Provider value={theme}>
+      <div className="h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+        <Controls
+          searchQuery={searchQuery}
+          onSearchChange={handleSearchChange}
+          matchCount={searchMatches.length}
+          activeMatchIndex={currentMatchIndex}
+          onNextMatch={() => stepMatch(1)}
+          onPreviousMatch={() => stepMatch(-1)}
+          isFilterActive={isFilterActive}
+          onFilterToggle={() => setIsFilterActive(!isFilterActive)}
+          includeDescendants={includeDescendants}
+          onIncludeDescendantsChange={setIncludeDescendants}
+          onExport={handleExport}
+          onCopy={handleCopy}
+          onReset={handleReset}
+          viewMode={viewMode}
+          onViewModeChange={setViewMode}
+          layoutType={layoutType}
+          onLayoutChange={setLayoutType}
+          visualizationType={visualizationType}
+          onVisualizationChange={setVisualizationType}
+          nodeCount={nodeCount}
+          visibleNodeCount={visibleNodeCount}
+          maxDepth={maxDepth}
+          onExpandAll={() => applyExpansion(() => true)}
+          onCollapseAll={() => applyExpansion(() => false)}
+          onExpandToDepth={(level) => applyExpansion(depth => depth < level)}
+          animationsEnabled={animationsEnabled}
+          onAnimationsToggle={() => setAnimationsEnabled(!animationsEnabled)}
+          theme={theme}
+          customThemes={customThemes}
+          onThemeChange={setTheme}
+          onCustomThemesChange={handleCustomThemesChange}
+          nodes={visibleNodes}
+          inputText={inputText}
+          mindMapRef={mindMapRef}
+          threejsRenderer={threejsRenderer}
+        />
       
-      <div className="flex-1 flex overflow-hidden">
-        {(viewMode === 'split' || viewMode === 'input') && (
-          <div className={`${viewMode === 'split' ? 'w-1/2' : 'w-full'} border-r border-gray-200 bg-white`}>
-            <TextInput
-              value={inputText}
-              onChange={setInputText}
-            />
-          </div>
-        )}
-        
-        {(viewMode === 'split' || viewMode === 'preview') && (
-          <div 
-            ref={mindMapRef}
-            className={`${viewMode === 'split' ? 'w-1/2' : 'w-full'} bg-white overflow-auto`}
-          >
-            {visualizationType === '2d' ? (
-              <MindMapVisualization
-                nodes={nodes}
-                onToggleExpand={handleToggleExpand}
-                searchQuery={searchQuery}
-                highlightedNodes={searchResults}
-                layoutType={layoutType}
+        <div className="flex-1 flex overflow-hidden">
+          {(viewMode === 'split' || viewMode === 'input') && (
+            <div className={`${viewMode === 'split' ? 'w-1/2' : 'w-full'} border-r border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800`}>
+              <TextInput
+                value={inputText}
+                onChange={setInputText}
+                format={inputFormat}
+                onFormatChange={setInputFormat}
+                onImportFile={handleImportFile}
+                importError={importError}
+                onDismissImportError={() => setImportError(null)}
+                diagnostics={parsed?.diagnostics}
+                canNormalize={parsed?.canNormalize}
               />
-            ) : (
-              <MindMap3D
-                nodes={nodes}
-                onToggleExpand={handleToggleExpand}
-                searchQuery={searchQuery}
-                highlightedNodes={searchResults}
-                onRendererReady={setThreejsRenderer}
-              />
-            )}
-          </div>
-        )}
+            </div>
+          )}
+        
+          {(viewMode === 'split' || viewMode === 'preview') && (
+            <div className={`${viewMode === 'split' ? 'w-1/2' : 'w-full'} flex flex-col bg-white dark:bg-gray-800`}>
+              {hoistPath.length > 0 && <HoistBreadcrumbs path={hoistPath} onHoist={handleHoist} />}
+              <div ref={mindMapRef} className="flex-1 min-h-0 overflow-auto">
+                {visualizationType === '2d' ? (
+                  <MindMapVisualization
+                    nodes={visibleNodes}
+                    onToggleExpand={handleToggleExpand}
+                    searchQuery={searchQuery}
+                    highlightedNodes={searchResults}
+                    activeNodeId={activeMatchId}
+                    layoutType={layoutType}
+                    crossLinks={crossLinkResult.links}
+                    editor={nodeEditor}
+                    animate={animationsEnabled}
+                  />
+                ) : (
+                  <MindMap3D
+                    nodes={visibleNodes}
+                    onToggleExpand={handleToggleExpand}
+                    searchQuery={searchQuery}
+                    highlightedNodes={searchResults}
+                    onRendererReady={setThreejsRenderer}
+                    crossLinks={crossLinkResult.links}
+                    activeNodeId={activeMatchId}
+                    bookmarks={cameraBookmarks}
+                    onBookmarksChange={setCameraBookmarks}
+                    onHoist={handleHoist}
+                    animate={animationsEnabled}
+                  />
+                )}
+              </div>
+            </div>
+          )}
+        </div>
       </div>
-    </div>
+    </ThemeContext.Provider>
   );
 };
\ No newline at end of file
@@ -1,91 +1,121 @@
 import React from 'react';
-import { ChevronDown, ChevronRight, Circle } from 'lucide-react';
-import { MindMapNode } from '../../types/mindmap';
+import { ChevronDown, ChevronRight, Circle, StickyNote } from 'lucide-react';
+import { MindMapNode, NodeEditor } from '../../types/mindmap';
+import { getNodeTooltip } from '../../lib/metadata';
+import { getHighlightPattern, splitHighlights } from '../../lib/searchQuery';
+import { getDisplayLabel } from '../../lib/crossLinks';
+import { getEmphasisStyle, getNodeStyleClass, getShapeStyle } from '../../lib/nodeStyle';
+import { NodeIcon, NodeLink, NodeMetadata, PriorityBadge } from './NodeMetadata';
+import { EditableNode, NodeLabelInput } from './EditableNode';
+import { useTheme } from './themeContext';
 
 interface MindMapNodeProps {
   node: MindMapNode;
   onToggleExpand: (nodeId: string) => void;
   searchQuery?: string;
   isHighlighted?: boolean;
+  isActive?: boolean;
+  editor?: NodeEditor;
+  /** Position in the tree for assistive technology, as 1-based values */
+  level: number;
+  setSize: number;
+  posInSet: number;
+  /** Whether this row is the tree's tab stop */
+  isFocused?: boolean;
+  /** Theme fill for the node, used unless the node sets its own background */
+  fill?: string;
 }
 
-export const MindMapNodeComponent: React.FC<MindMapNodeProps> = ({
+/**
+ * A single node of the tree view, exposed as an ARIA treeitem. Children are
+ * rendered as separate rows by VirtualTree; memoized so rows only re-render
+ * when their node changes.
+ */
+export const MindMapNodeComponent = React.memo<MindMapNodeProps>(({
   node,
   onToggleExpand,
   searchQuery,
-  isHighlighted
+  isHighlighted,
+  isActive,
+  editor,
+  level,
+  setSize,
+  posInSet,
+  isFocused,
+  fill
 }) => {
   const hasChildren = node.children.length > 0;
-  
-  const getNodeColor = (level: number) => {
-    const colors = [
-      'bg-blue-500 text-white',
-      'bg-teal-500 text-white', 
-      'bg-orange-500 text-white',
-      'bg-purple-500 text-white',
-      'bg-green-500 text-white',
-      'bg-pink-500 text-white'
-    ];
-    return colors[level % colors.length];
-  };
+  const theme = useTheme();
+  const background = node.background ?? fill;
   
   const highlightText = (text: string, query: string) => {
-    if (!query.trim()) return text;
-    
-    const regex = new RegExp(`(${query})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
+    return splitHighlights(text, getHighlightPattern(query)).map((segment, index) =>
+      segment.isMatch ? (
         <mark key={index} className="bg-yellow-300 text-gray-900 px-1 rounded">
-          {part}
+          {segment.text}
         </mark>
-      ) : part
+      ) : segment.text
     );
   };
   
   return (
-    <div className="relative">
-      <div 
-        className={`
-          flex items-center gap-2 p-3 rounded-lg shadow-md transition-all duration-200
-          hover:shadow-lg hover:scale-105 cursor-pointer select-none
-          ${getNodeColor(node.level)}
-          ${isHighlighted ? 'ring-4 ring-yellow-400 ring-opacity-50' : ''}
-        `}
-        onClick={() => hasChildren && onToggleExpand(node.id)}
-      >
-        {hasChildren ? (
-          node.isExpanded ? (
-            <ChevronDown size={16} className="flex-shrink-0" />
-          ) : (
-            <ChevronRight size={16} className="flex-shrink-0" />
-          )
+    <EditableNode
+      node={node}
+      editor={editor}
+      className={`
+        relative flex items-center gap-2 p-3 rounded-lg shadow-md transition-all duration-200
+        hover:shadow-lg hover:scale-105 cursor-pointer select-none
+        ${isActive ? 'ring-4 ring-orange-500' : isHighlighted ? 'ring-4 ring-yellow-400 ring-opacity-50' : ''}
+        ${getNodeStyleClass(node)}
+      `}
+      style={{
+        backgroundColor: background,
+        color: node.color ?? theme.nodeTextColor,
+        ...getShapeStyle(node, background, theme.textColor)
+      }}
+      onClick={() => hasChildren && onToggleExpand(node.id)}
+      title={getNodeTooltip(node)}
+      itemProps={{
+        role: 'treeitem',
+        'aria-level': level,
+        'aria-setsize': setSize,
+        'aria-posinset': posInSet,
+        'aria-expanded': hasChildren ? node.isExpanded : undefined,
+        'aria-selected': isFocused,
+        tabIndex: isFocused ? 0 : -1
+      }}
+    >
+      {hasChildren ? (
+        node.isExpanded ? (
+          <ChevronDown size={16} className="flex-shrink-0" />
         ) : (
-          <Circle size={8} className="flex-shrink-0 opacity-60" />
+          <ChevronRight size={16} className="flex-shrink-0" />
+        )
+      ) : (
+        <Circle size={8} className="flex-shrink-0 opacity-60" />
+      )}
+      
+      {node.icon && <span className="flex-shrink-0 text-base leading-none">{node.icon}</span>}
+      <NodeIcon name={node.iconName} size={16} />
+      
+      <div className="flex flex-col gap-1 min-w-0">
+        {editor?.editingNodeId === node.id ? (
+          <NodeLabelInput
+            label={node.label}
+            onCommit={(label) => editor.onRename(node.id, label)}
+            onCancel={() => editor.onStartRename(null)}
+          />
+        ) : (
+          <span className="font-medium text-sm leading-tight" style={getEmphasisStyle(node)}>
+            {highlightText(getDisplayLabel(node.label), searchQuery || '')}
+          </span>
         )}
-        
-        <span className="font-medium text-sm leading-tight">
-          {highlightText(node.label, searchQuery || '')}
-        </span>
+        <NodeMetadata node={node} showProperties />
       </div>
       
-      {hasChildren && node.isExpanded && (
-        <div className="ml-6 mt-3 space-y-2 relative">
-          <div className="absolute left-0 top-0 bottom-0 w-px bg-gray-300"></div>
-          {node.children.map((child, index) => (
-            <div key={child.id} className="relative pl-4">
-              <div className="absolute left-0 top-4 w-3 h-px bg-gray-300"></div>
-              <MindMapNodeComponent
-                node={child}
-                onToggleExpand={onToggleExpand}
-                searchQuery={searchQuery}
-                isHighlighted={isHighlighted}
-              />
-            </div>
-          ))}
-        </div>
-      )}
-    </div>
+      {node.priority && <PriorityBadge priority={node.priority} />}
+      {node.note && <StickyNote size={12} className="flex-shrink-0 opacity-75" />}
+      <NodeLink link={node.link} />
+    </EditableNode>
   );
-};
\ No newline at end of file
+});
@@ -1,14 +1,25 @@
-import React from 'react';
-import { MindMapNode } from '../../types/mindmap';
-import { MindMapNodeComponent } from './MindMapNode';
+import React, { useMemo, useState } from 'react';
+import { CrossLink, LayoutType, MindMapNode, NodeEditor } from '../../types/mindmap';
+import { VirtualTree } from './VirtualTree';
 import { RadialMindMap } from './RadialMindMap';
+import { HierarchyMindMap } from './HierarchyMindMap';
+import { BalancedMindMap } from './BalancedMindMap';
+import { PartitionMindMap } from './PartitionMindMap';
+import { ZoomableViewport } from './ZoomableViewport';
+import { AccessibleNodeList } from './AccessibleNodeList';
+import { createNodeTransitionStore, NodeTransitionContext } from './useNodeTransitions';
 
 interface MindMapVisualizationProps {
   nodes: MindMapNode[];
   onToggleExpand: (nodeId: string) => void;
   searchQuery?: string;
   highlightedNodes?: Set<string>;
-  layoutType?: 'tree' | 'radial';
+  activeNodeId?: string | null;
+  layoutType?: LayoutType;
+  crossLinks?: CrossLink[];
+  editor?: NodeEditor;
+  /** Animate nodes between positions; off for reduced motion */
+  animate?: boolean;
 }
 
 export const MindMapVisualization: React.FC<MindMapVisualizationProps> = ({
@@ -16,11 +27,20 @@ export const MindMapVisualization: React.FC<MindMapVisualizationProps> = ({
   onToggleExpand,
   searchQuery,
   highlightedNodes,
-  layoutType = 'tree'
+  activeNodeId,
+  layoutType = 'tree',
+  crossLinks = [],
+  editor,
+  animate = true
 }) => {
+  const [keyboardNodeId, setKeyboardNodeId] = useState<string | null>(null);
+  // Node positions outlive each layout so nodes can move between layouts
+  const [transitionStore] = useState(createNodeTransitionStore);
+  const transitions = useMemo(() => ({ enabled: animate, store: transitionStore }), [animate, transitionStore]);
+
   if (nodes.length === 0) {
     return (
-      <div className="flex items-center justify-center h-64 text-gray-500">
+      <div className="flex items-center justify-center h-64 text-gray-500 dark:text-gray-400">
         <div className="text-center">
           <div className="text-6xl mb-4">🧠</div>
           <p className="text-lg font-medium">Enter some text to generate your mind map</p>
@@ -30,28 +50,94 @@ export const MindMapVisualization: React.FC<MindMapVisualizationProps> = ({
     );
   }
   
-  if (layoutType === 'radial') {
+  if (layoutType === 'tree') {
     return (
-      <RadialMindMap
+      <NodeTransitionContext.Provider value={transitions}>
+        <ZoomableViewport focusNodeId={activeNodeId} layoutKey={nodes}>
+          <VirtualTree
+            nodes={nodes}
+            onToggleExpand={onToggleExpand}
+            searchQuery={searchQuery}
+            highlightedNodes={highlightedNodes}
+            activeNodeId={activeNodeId}
+            crossLinks={crossLinks}
+            editor={editor}
+          />
+        </ZoomableViewport>
+      </NodeTransitionContext.Provider>
+    );
+  }
+
+  // The other views are reached from the keyboard through an accessible node list
+  const focusNodeId = keyboardNodeId ?? activeNodeId;
+  let view: React.ReactNode;
+
+  if (layoutType === 'orgchart' || layoutType === 'tidy') {
+    view = (
+      <ZoomableViewport focusNodeId={focusNodeId} outlineNodeId={keyboardNodeId} layoutKey={nodes}>
+        <HierarchyMindMap
+          nodes={nodes}
+          orientation={layoutType === 'orgchart' ? 'vertical' : 'horizontal'}
+          onToggleExpand={onToggleExpand}
+          searchQuery={searchQuery}
+          highlightedNodes={highlightedNodes}
+          activeNodeId={activeNodeId}
+          crossLinks={crossLinks}
+          editor={editor}
+        />
+      </ZoomableViewport>
+    );
+  } else if (layoutType === 'sunburst' || layoutType === 'icicle') {
+    view = (
+      <PartitionMindMap
         nodes={nodes}
-        onToggleExpand={onToggleExpand}
-        searchQuery={searchQuery}
+        variant={layoutType}
         highlightedNodes={highlightedNodes}
+        activeNodeId={activeNodeId}
+        keyboardNodeId={keyboardNodeId}
       />
     );
+  } else if (layoutType === 'balanced') {
+    view = (
+      <ZoomableViewport focusNodeId={focusNodeId} outlineNodeId={keyboardNodeId} layoutKey={nodes}>
+        <BalancedMindMap
+          nodes={nodes}
+          onToggleExpand={onToggleExpand}
+          searchQuery={searchQuery}
+          highlightedNodes={highlightedNodes}
+          activeNodeId={activeNodeId}
+          crossLinks={crossLinks}
+          editor={editor}
+        />
+      </ZoomableViewport>
+    );
+  } else {
+    view = (
+      <ZoomableViewport focusNodeId={focusNodeId} outlineNodeId={keyboardNodeId} layoutKey={nodes}>
+        <RadialMindMap
+          nodes={nodes}
+          onToggleExpand={onToggleExpand}
+          searchQuery={searchQuery}
+          highlightedNodes={highlightedNodes}
+          activeNodeId={activeNodeId}
+          crossLinks={crossLinks}
+          editor={editor}
+        />
+      </ZoomableViewport>
+    );
   }
-  
+
   return (
-    <div className="p-6 space-y-4">
-      {nodes.map((node) => (
-        <MindMapNodeComponent
-          key={node.id}
-          node={node}
+    <NodeTransitionContext.Provider value={transitions}>
+      <div className="relative w-full h-full">
+        <AccessibleNodeList
+          nodes={nodes}
           onToggleExpand={onToggleExpand}
-          searchQuery={searchQuery}
-          isHighlighted={highlightedNodes?.has(node.id)}
+          onFocusNode={setKeyboardNodeId}
+          label="Mind map nodes"
         />
-      ))}
-    </div>
+        {view}
+      </div>
+    </NodeTransitionContext.Provider>
   );
-};
\ No newline at end of file
+};
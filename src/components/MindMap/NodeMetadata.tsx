@@ -0,0 +1,85 @@
+import React from 'react';
+import { ExternalLink } from 'lucide-react';
+import { MindMapNode, Priority } from '../../types/mindmap';
+import { NODE_ICONS } from '../../lib/nodeIcons';
+import { getSafeLink } from '../../lib/links';
+
+interface NodeMetadataProps {
+  node: MindMapNode;
+  showProperties?: boolean;
+}
+
+const priorityStyles: Record<Priority, string> = {
+  1: 'bg-red-600 text-white',
+  2: 'bg-amber-400 text-gray-900',
+  3: 'bg-slate-200 text-gray-700'
+};
+
+export const PriorityBadge: React.FC<{ priority: Priority }> = ({ priority }) => (
+  <span
+    className={`flex-shrink-0 px-1.5 rounded text-[10px] font-bold leading-4 ${priorityStyles[priority]}`}
+    title={`Priority ${priority}`}
+  >
+    P{priority}
+  </span>
+);
+
+/**
+ * Icon chosen for a node by name; names outside the icon set draw nothing
+ */
+export const NodeIcon: React.FC<{ name?: string; size?: number }> = ({ name, size = 14 }) => {
+  const Icon = name ? NODE_ICONS[name] : undefined;
+  return Icon ? <Icon size={size} className="flex-shrink-0" aria-hidden="true" /> : null;
+};
+
+/**
+ * Opens a node's link in a new tab; links that aren't safe to open draw nothing
+ */
+export const NodeLink: React.FC<{ link?: string }> = ({ link }) => {
+  const href = getSafeLink(link);
+  if (!href) return null;
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()}
+      className="flex-shrink-0 opacity-75 hover:opacity-100"
+      title={href}
+    >
+      <ExternalLink size={12} />
+    </a>
+  );
+};
+
+export const NodeMetadata: React.FC<NodeMetadataProps> = ({ node, showProperties = false }) => {
+  const properties = Object.entries(node.properties ?? {});
+  const hasTags = node.tags && node.tags.length > 0;
+
+  if (!hasTags && !(showProperties && properties.length > 0)) return null;
+
+  return (
+    <div className="flex flex-col gap-1">
+      {hasTags && (
+        <div className="flex flex-wrap gap-1">
+          {node.tags?.map(tag => (
+            <span key={tag} className="px-1.5 rounded-full text-[10px] leading-4 bg-white bg-opacity-25">
+              #{tag}
+            </span>
+          ))}
+        </div>
+      )}
+      {showProperties && properties.length > 0 && (
+        <dl className="text-[11px] leading-4 opacity-90">
+          {properties.map(([key, value]) => (
+            <div key={key} className="flex gap-1">
+              <dt className="font-semibold">{key}:</dt>
+              <dd className="truncate">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
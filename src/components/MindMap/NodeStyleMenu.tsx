@@ -0,0 +1,195 @@
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Bold, Italic, AlertCircle, X, RotateCcw } from 'lucide-react';
+import { MindMapNode, NodeStyle } from '../../types/mindmap';
+import { getNodeStyle, NODE_SHAPES } from '../../lib/nodeStyle';
+import { NODE_ICONS } from '../../lib/nodeIcons';
+import { useTheme } from './themeContext';
+
+interface NodeStyleMenuProps {
+  node: MindMapNode;
+  /** Viewport position the menu opens at */
+  position: { x: number; y: number };
+  onStyle: (style: NodeStyle) => void;
+  onClose: () => void;
+}
+
+// Preview of each shape in the menu
+const shapePreviewClass: Record<string, string> = {
+  rounded: 'rounded',
+  pill: 'rounded-full',
+  ellipse: 'rounded-[50%]',
+  underline: 'border-b-2 border-current'
+};
+
+const optionClass = (isActive: boolean) => `
+  p-1.5 rounded transition-colors
+  ${isActive
+    ? 'bg-blue-100 text-blue-600'
+    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}
+`;
+
+/**
+ * Context menu for a node's own colour, shape, emphasis and icon. Rendered
+ * into the page body so the zoomed viewport does not scale or clip it.
+ */
+export const NodeStyleMenu: React.FC<NodeStyleMenuProps> = ({ node, position, onStyle, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const theme = useTheme();
+  const style = getNodeStyle(node);
+
+  useEffect(() => {
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) onClose();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  // Keep the menu on screen near the right and bottom edges
+  useEffect(() => {
+    const menu = menuRef.current;
+    if (!menu) return;
+    menu.focus();
+    const rect = menu.getBoundingClientRect();
+    menu.style.left = `${Math.max(0, Math.min(position.x, window.innerWidth - rect.width - 8))}px`;
+    menu.style.top = `${Math.max(0, Math.min(position.y, window.innerHeight - rect.height - 8))}px`;
+  }, [position]);
+
+  const update = (change: NodeStyle) => onStyle({ ...style, ...change });
+
+  // React events bubble out of portals, so keep them from reaching the node and viewport
+  const stopPropagation = (event: React.SyntheticEvent) => event.stopPropagation();
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      role="dialog"
+      aria-label={`Style of ${node.label}`}
+      className="fixed z-50 w-64 p-3 space-y-3 text-xs bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700"
+      style={{ left: position.x, top: position.y }}
+      tabIndex={-1}
+      onPointerDown={stopPropagation}
+      onKeyDown={(e) => {
+        stopPropagation(e);
+        if (e.key === 'Escape') onClose();
+      }}
+      onClick={stopPropagation}
+      onDoubleClick={stopPropagation}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700 dark:text-gray-200 truncate">{node.label}</span>
+        <button onClick={onClose} className={optionClass(false)} title="Close">
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <div>Colour</div>
+        <div className="flex flex-wrap items-center gap-1">
+          {theme.palette.map((color, index) => (
+            <button
+              key={index}
+              onClick={() => update({ background: color })}
+              className={`w-5 h-5 rounded-full border-2 ${style.background === color ? 'border-blue-500' : 'border-transparent'}`}
+              style={{ backgroundColor: color }}
+              title={color}
+            />
+          ))}
+          <input
+            type="color"
+            value={style.background ?? theme.palette[0]}
+            onChange={(e) => update({ background: e.target.value })}
+            className="w-6 h-5 p-0 border-0 bg-transparent cursor-pointer"
+            aria-label="Custom colour"
+          />
+          {style.background && (
+            <button onClick={() => update({ background: undefined })} className={optionClass(false)} title="Theme colour">
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div>Shape</div>
+        <div className="flex items-center gap-1">
+          {NODE_SHAPES.map(shape => (
+            <button
+              key={shape.value}
+              onClick={() => update({ shape: style.shape === shape.value ? undefined : shape.value })}
+              className={optionClass(style.shape === shape.value)}
+              title={shape.label}
+              aria-pressed={style.shape === shape.value}
+            >
+              <span className={`block w-7 h-4 ${shape.value === 'underline' ? '' : 'bg-current opacity-60'} ${shapePreviewClass[shape.value]}`} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => update({ bold: style.bold ? undefined : true })}
+          className={optionClass(!!style.bold)}
+          title="Bold"
+          aria-pressed={!!style.bold}
+        >
+          <Bold size={14} />
+        </button>
+        <button
+          onClick={() => update({ italic: style.italic ? undefined : true })}
+          className={optionClass(!!style.italic)}
+          title="Italic"
+          aria-pressed={!!style.italic}
+        >
+          <Italic size={14} />
+        </button>
+        <button
+          onClick={() => update({ important: style.important ? undefined : true })}
+          className={`${optionClass(!!style.important)} flex items-center gap-1`}
+          title="Mark as important"
+          aria-pressed={!!style.important}
+        >
+          <AlertCircle size={14} />
+          Important
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <div>Icon</div>
+        <div className="grid grid-cols-7 gap-0.5">
+          {Object.entries(NODE_ICONS).map(([name, Icon]) => (
+            <button
+              key={name}
+              onClick={() => update({ iconName: style.iconName === name ? undefined : name })}
+              className={optionClass(style.iconName === name)}
+              title={name}
+              aria-pressed={style.iconName === name}
+            >
+              <Icon size={14} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={() => onStyle({})}
+        disabled={Object.keys(style).length === 0}
+        className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 transition-colors"
+      >
+        <RotateCcw size={12} />
+        Clear style
+      </button>
+    </div>,
+    document.body
+  );
+};
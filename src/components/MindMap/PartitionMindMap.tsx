@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Home, ChevronRight } from 'lucide-react';
+import { MindMapNode } from '../../types/mindmap';
+import { getDisplayLabel } from '../../lib/crossLinks';
+import { findNodePath } from '../../lib/parser';
+import { calculatePartition, getArcPath, getNumericPropertyKeys, PartitionCell } from '../../lib/partitionLayout';
+import { ZoomableViewport } from './ZoomableViewport';
+import { useTheme } from './themeContext';
+
+interface PartitionMindMapProps {
+  nodes: MindMapNode[];
+  variant: 'sunburst' | 'icicle';
+  highlightedNodes?: Set<string>;
+  activeNodeId?: string | null;
+  /** Node focused in the keyboard node list, outlined and kept in view */
+  keyboardNodeId?: string | null;
+}
+
+// Sunburst radius, icicle width and row height, in pixels
+const SUNBURST_RADIUS = 320;
+const ICICLE_WIDTH = 960;
+const ICICLE_ROW_HEIGHT = 40;
+const MAX_DEPTH = 6;
+const CHAR_WIDTH = 7;
+
+const truncateLabel = (label: string, width: number): string | null => {
+  const maxChars = Math.floor(width / CHAR_WIDTH);
+  if (maxChars < 3) return null;
+  return label.length > maxChars ? `${label.slice(0, maxChars - 1)}…` : label;
+};
+
+/**
+ * Space-filling sunburst and icicle charts. Each node's share reflects its
+ * number of descendants or a numeric property; clicking a node zooms into
+ * its subtree and the breadcrumbs lead back out.
+ */
+export const PartitionMindMap: React.FC<PartitionMindMapProps> = ({
+  nodes,
+  variant,
+  highlightedNodes,
+  activeNodeId,
+  keyboardNodeId
+}) => {
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [sizeProperty, setSizeProperty] = useState('');
+  const lastActiveIdRef = useRef(activeNodeId);
+  const theme = useTheme();
+
+  const propertyKeys = useMemo(() => getNumericPropertyKeys(nodes), [nodes]);
+  const focusPath = useMemo(() => (focusId ? findNodePath(nodes, focusId) : []), [nodes, focusId]);
+  const focusNode = focusPath[focusPath.length - 1];
+
+  const cells = useMemo(
+    () => calculatePartition(focusNode ? [focusNode] : nodes, sizeProperty || undefined, MAX_DEPTH - 1),
+    [nodes, focusNode, sizeProperty]
+  );
+
+  // Zoom back out when the search moves to a match outside the zoomed subtree
+  useEffect(() => {
+    if (activeNodeId === lastActiveIdRef.current) return;
+    lastActiveIdRef.current = activeNodeId;
+    if (focusNode && activeNodeId && findNodePath([focusNode], activeNodeId).length === 0) {
+      setFocusId(null);
+    }
+  }, [focusNode, activeNodeId]);
+
+  useEffect(() => {
+    if (sizeProperty && !propertyKeys.includes(sizeProperty)) setSizeProperty('');
+  }, [sizeProperty, propertyKeys]);
+
+  const depthCount = Math.max(1, ...cells.map(cell => cell.depth + 1));
+  const isSearching = (highlightedNodes?.size ?? 0) > 0;
+
+  // Cells are always coloured by branch, fading with depth
+  const getFill = (cell: PartitionCell) =>
+    cell.branch < 0 ? theme.rootColor : theme.palette[cell.branch % theme.palette.length];
+
+  const getCellStyle = (cell: PartitionCell) => {
+    const isActive = activeNodeId === cell.node.id;
+    const isHighlighted = highlightedNodes?.has(cell.node.id);
+    const depthOpacity = Math.max(0.35, 1 - cell.depth * 0.13);
+    return {
+      fill: getFill(cell),
+      fillOpacity: isSearching && !isHighlighted && !isActive ? depthOpacity * 0.35 : depthOpacity,
+      stroke: isActive ? '#f97316' : isHighlighted ? '#facc15' : theme.background,
+      strokeWidth: isActive || isHighlighted ? 3 : 1
+    };
+  };
+
+  const handleCellClick = (cell: PartitionCell) => {
+    if (cell.depth === 0 && focusNode?.id === cell.node.id) {
+      setFocusId(focusPath.length > 1 ? focusPath[focusPath.length - 2].id : null);
+    } else if (cell.node.children.length > 0) {
+      setFocusId(cell.node.id);
+    }
+  };
+
+  const renderCell = (cell: PartitionCell, shape: React.ReactNode) => (
+    <g
+      key={cell.node.id}
+      data-node-id={cell.node.id}
+      onClick={() => handleCellClick(cell)}
+      className={cell.node.children.length > 0 || cell.depth === 0 ? 'cursor-pointer' : ''}
+    >
+      <title>{`${getDisplayLabel(cell.node.label)} (${Math.round(cell.value * 100) / 100})`}</title>
+      {shape}
+    </g>
+  );
+
+  const renderSunburst = () => {
+    const ringWidth = SUNBURST_RADIUS / depthCount;
+    const size = SUNBURST_RADIUS * 2;
+
+    return (
+      <svg width={size} height={size} viewBox={`${-SUNBURST_RADIUS} ${-SUNBURST_RADIUS} ${size} ${size}`}>
+        {cells.map(cell => {
+          const startAngle = cell.start * 2 * Math.PI;
+          const endAngle = cell.end * 2 * Math.PI;
+          const innerRadius = cell.depth * ringWidth;
+          const midAngle = (startAngle + endAngle) / 2;
+          const midRadius = innerRadius + ringWidth / 2;
+          const label = getDisplayLabel(cell.node.label);
+
+          // Rings read along the radius; the centre disc reads horizontally
+          let text: React.ReactNode = null;
+          if (innerRadius === 0 && endAngle - startAngle >= 2 * Math.PI - 1e-6) {
+            const fitted = truncateLabel(label, ringWidth * 1.6);
+            if (fitted) text = <text textAnchor="middle" dominantBaseline="middle">{fitted}</text>;
+          } else if ((endAngle - startAngle) * midRadius >= 14) {
+            const fitted = truncateLabel(label, ringWidth - 8);
+            const degrees = (midAngle * 180) / Math.PI;
+            const rotation = degrees < 180 ? degrees - 90 : degrees + 90;
+            const x = midRadius * Math.sin(midAngle);
+            const y = -midRadius * Math.cos(midAngle);
+            if (fitted) {
+              text = (
+                <text textAnchor="middle" dominantBaseline="middle" transform={`translate(${x}, ${y}) rotate(${rotation})`}>
+                  {fitted}
+                </text>
+              );
+            }
+          }
+
+          return renderCell(cell, (
+            <>
+              <path d={getArcPath(innerRadius, innerRadius + ringWidth, startAngle, endAngle)} fillRule="evenodd" style={getCellStyle(cell)} />
+              {text && <g className="pointer-events-none" fill={theme.nodeTextColor} fontSize="11" fontWeight="500">{text}</g>}
+            </>
+          ));
+        })}
+      </svg>
+    );
+  };
+
+  const renderIcicle = () => (
+    <svg width={ICICLE_WIDTH} height={depthCount * ICICLE_ROW_HEIGHT}>
+      {cells.map(cell => {
+        const x = cell.start * ICICLE_WIDTH;
+        const width = (cell.end - cell.start) * ICICLE_WIDTH;
+        const y = cell.depth * ICICLE_ROW_HEIGHT;
+        const fitted = truncateLabel(getDisplayLabel(cell.node.label), width - 8);
+
+        return renderCell(cell, (
+          <>
+            <rect x={x} y={y} width={width} height={ICICLE_ROW_HEIGHT} rx="2" style={getCellStyle(cell)} />
+            {fitted && (
+              <text
+                x={x + 6}
+                y={y + ICICLE_ROW_HEIGHT / 2}
+                dominantBaseline="middle"
+                className="pointer-events-none"
+                fill={theme.nodeTextColor}
+                fontSize="12"
+                fontWeight="500"
+              >
+                {fitted}
+              </text>
+            )}
+          </>
+        ));
+      })}
+    </svg>
+  );
+
+  return (
+    <div className="relative w-full h-full">
+      <div data-export-ignore className="absolute top-3 left-3 z-20 flex flex-col items-start gap-2">
+        <div className="flex items-center gap-1 text-sm bg-black bg-opacity-70 text-white px-3 py-2 rounded-lg max-w-md">
+          <button
+            onClick={() => setFocusId(null)}
+            className="hover:text-blue-400 transition-colors"
+            title="Show the whole map"
+          >
+            <Home size={12} />
+          </button>
+          {focusPath.map(node => (
+            <React.Fragment key={node.id}>
+              <ChevronRight size={12} className="text-gray-400" />
+              <button
+                onClick={() => setFocusId(node.id)}
+                className="hover:text-blue-400 transition-colors truncate max-w-24"
+                title={node.label}
+              >
+                {getDisplayLabel(node.label)}
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-600 bg-white px-2 py-1 rounded-lg shadow border border-gray-200 dark:text-gray-300 dark:bg-gray-800 dark:border-gray-700">
+          Size by
+          <select
+            value={sizeProperty}
+            onChange={(e) => setSizeProperty(e.target.value)}
+            className="text-xs bg-transparent focus:outline-none"
+          >
+            <option value="">Number of descendants</option>
+            {propertyKeys.map(key => (
+              <option key={key} value={key}>{key}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <ZoomableViewport focusNodeId={keyboardNodeId ?? activeNodeId} outlineNodeId={keyboardNodeId} layoutKey={cells}>
+        <div className="p-6 pt-24">
+          {cells.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No node has a value for this property.</p>
+          ) : variant === 'sunburst' ? renderSunburst() : renderIcicle()}
+        </div>
+      </ZoomableViewport>
+    </div>
+  );
+};
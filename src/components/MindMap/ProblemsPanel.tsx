@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, Info, ChevronDown, ChevronRight, Wand2 } from 'lucide-react';
+import { Diagnostic, DiagnosticFix, DiagnosticSeverity } from '../../types/mindmap';
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  onSelectLine: (lineNumber: number) => void;
+  onApplyFix: (fix: DiagnosticFix) => void;
+  onNormalizeIndentation?: () => void;
+}
+
+const severityStyles: Record<DiagnosticSeverity, { icon: typeof Info; text: string }> = {
+  error: { icon: AlertCircle, text: 'text-red-600' },
+  warning: { icon: AlertTriangle, text: 'text-amber-600' },
+  info: { icon: Info, text: 'text-blue-600' }
+};
+
+export const ProblemsPanel: React.FC<ProblemsPanelProps> = ({
+  diagnostics,
+  onSelectLine,
+  onApplyFix,
+  onNormalizeIndentation
+}) => {
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (diagnostics.length === 0) return null;
+
+  const counts = diagnostics.reduce<Record<DiagnosticSeverity, number>>(
+    (acc, diagnostic) => ({ ...acc, [diagnostic.severity]: acc[diagnostic.severity] + 1 }),
+    { error: 0, warning: 0, info: 0 }
+  );
+
+  return (
+    <div className="mx-4 mb-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm">
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-gray-900 rounded-t-lg">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 font-medium text-gray-700 dark:text-gray-200"
+        >
+          {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          Problems
+          {(Object.keys(counts) as DiagnosticSeverity[])
+            .filter(severity => counts[severity] > 0)
+            .map(severity => {
+              const Icon = severityStyles[severity].icon;
+              return (
+                <span key={severity} className={`flex items-center gap-0.5 text-xs ${severityStyles[severity].text}`}>
+                  <Icon size={12} />
+                  {counts[severity]}
+                </span>
+              );
+            })}
+        </button>
+        {onNormalizeIndentation && (
+          <button
+            onClick={onNormalizeIndentation}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs text-blue-600 rounded hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors"
+            title="Re-indent every line to the level it is parsed at"
+          >
+            <Wand2 size={12} />
+            Normalize indentation
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100">
+          {diagnostics.map((diagnostic, index) => {
+            const { icon: Icon, text } = severityStyles[diagnostic.severity];
+            return (
+              <li key={`${diagnostic.lineNumber}-${index}`} className="flex items-start gap-2 px-3 py-1.5 hover:bg-gray-50 dark:hover:bg-gray-700">
+                <Icon size={14} className={`flex-shrink-0 mt-0.5 ${text}`} />
+                <button
+                  onClick={() => onSelectLine(diagnostic.lineNumber)}
+                  className="flex-1 text-left text-xs text-gray-700 dark:text-gray-200"
+                >
+                  <span className="font-mono text-gray-500 dark:text-gray-400 mr-1">Line {diagnostic.lineNumber}:</span>
+                  {diagnostic.message}
+                </button>
+                {diagnostic.fix && (
+                  <button
+                    onClick={() => onApplyFix(diagnostic.fix as DiagnosticFix)}
+                    className="flex-shrink-0 px-2 py-0.5 text-xs text-blue-600 border border-blue-200 rounded hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    {diagnostic.fix.label}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
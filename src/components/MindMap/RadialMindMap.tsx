@@ -1,26 +1,49 @@
-import React from 'react';
-import { MindMapNode } from '../../types/mindmap';
+import React, { useMemo, useRef } from 'react';
+import { StickyNote } from 'lucide-react';
+import { CrossLink, MindMapNode, NodeEditor } from '../../types/mindmap';
+import { getDisplayLabel } from '../../lib/crossLinks';
+import { CROSS_LINK_COLOR, CrossLinkMarker } from './CrossLinkOverlay';
+import { getNodeTooltip } from '../../lib/metadata';
+import { getHighlightPattern, splitHighlights } from '../../lib/searchQuery';
+import { NodeIcon, NodeLink, NodeMetadata, PriorityBadge } from './NodeMetadata';
+import { EditableNode, NodeLabelInput } from './EditableNode';
+import { calculateRadialLayout, estimateNodeSize } from '../../lib/radialLayout';
+import { getFilledNodeStyle } from '../../lib/themes';
+import { getEmphasisStyle, getNodeStyleClass, getShapeStyle } from '../../lib/nodeStyle';
+import { useNodeSizes } from './useNodeSizes';
+import { useNodeTransitions } from './useNodeTransitions';
+import { useNodeFills, useTheme } from './themeContext';
 
 interface RadialMindMapProps {
   nodes: MindMapNode[];
   onToggleExpand: (nodeId: string) => void;
   searchQuery?: string;
   highlightedNodes?: Set<string>;
-}
-
-interface PositionedNode extends MindMapNode {
-  x: number;
-  y: number;
-  angle: number;
-  radius: number;
+  activeNodeId?: string | null;
+  crossLinks?: CrossLink[];
+  editor?: NodeEditor;
 }
 
 export const RadialMindMap: React.FC<RadialMindMapProps> = ({
   nodes,
   onToggleExpand,
   searchQuery,
-  highlightedNodes
+  highlightedNodes,
+  activeNodeId,
+  crossLinks = [],
+  editor
 }) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const measuredSizes = useNodeSizes(layerRef);
+  useNodeTransitions(layerRef, nodes);
+  const theme = useTheme();
+  const fills = useNodeFills(nodes);
+
+  const layout = useMemo(
+    () => calculateRadialLayout(nodes, node => measuredSizes.get(node.id) ?? estimateNodeSize(node)),
+    [nodes, measuredSizes]
+  );
+  
   if (nodes.length === 0) {
     return (
       <div className="flex items-center justify-center h-64 text-gray-500">
@@ -33,99 +56,29 @@ export const RadialMindMap: React.FC<RadialMindMapProps> = ({
     );
   }
 
-  const calculateRadialPositions = (nodes: MindMapNode[]): PositionedNode[] => {
-    const positioned: PositionedNode[] = [];
-    const centerX = 400;
-    const centerY = 300;
-    const baseRadius = 120;
-    const radiusIncrement = 100;
-
-    const processNode = (
-      node: MindMapNode, 
-      level: number, 
-      angle: number, 
-      parentX: number = centerX, 
-      parentY: number = centerY
-    ) => {
-      const radius = level === 0 ? 0 : baseRadius + (level - 1) * radiusIncrement;
-      const x = level === 0 ? centerX : parentX + Math.cos(angle) * radius;
-      const y = level === 0 ? centerY : parentY + Math.sin(angle) * radius;
-
-      const positionedNode: PositionedNode = {
-        ...node,
-        x,
-        y,
-        angle,
-        radius
-      };
-
-      positioned.push(positionedNode);
-
-      if (node.children.length > 0 && node.isExpanded) {
-        const angleStep = (2 * Math.PI) / Math.max(node.children.length, 1);
-        const startAngle = level === 0 ? 0 : angle - (angleStep * (node.children.length - 1)) / 2;
-
-        node.children.forEach((child, index) => {
-          const childAngle = startAngle + index * angleStep;
-          processNode(child, level + 1, childAngle, x, y);
-        });
-      }
-    };
-
-    // Process root nodes
-    if (nodes.length === 1) {
-      processNode(nodes[0], 0, 0);
-    } else {
-      const angleStep = (2 * Math.PI) / nodes.length;
-      nodes.forEach((node, index) => {
-        const angle = index * angleStep;
-        processNode(node, 1, angle, centerX, centerY);
-      });
-    }
-
-    return positioned;
-  };
-
-  const positionedNodes = calculateRadialPositions(nodes);
+  const positionedNodes = layout.nodes;
   
-  const getNodeColor = (level: number) => {
-    const colors = [
-      'bg-blue-500 text-white',
-      'bg-teal-500 text-white', 
-      'bg-orange-500 text-white',
-      'bg-purple-500 text-white',
-      'bg-green-500 text-white',
-      'bg-pink-500 text-white'
-    ];
-    return colors[level % colors.length];
+  // Theme fill, then the node's own shape over it
+  const getStyledNode = (node: MindMapNode): React.CSSProperties => {
+    const filled = getFilledNodeStyle(node, fills, theme);
+    return { ...filled, ...getShapeStyle(node, filled.backgroundColor, theme.textColor) };
   };
 
   const highlightText = (text: string, query: string) => {
-    if (!query.trim()) return text;
-    
-    const regex = new RegExp(`(${query})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
+    return splitHighlights(text, getHighlightPattern(query)).map((segment, index) =>
+      segment.isMatch ? (
         <mark key={index} className="bg-yellow-300 text-gray-900 px-1 rounded">
-          {part}
+          {segment.text}
         </mark>
-      ) : part
+      ) : segment.text
     );
   };
 
-  // Calculate SVG dimensions
-  const minX = Math.min(...positionedNodes.map(n => n.x)) - 100;
-  const maxX = Math.max(...positionedNodes.map(n => n.x)) + 100;
-  const minY = Math.min(...positionedNodes.map(n => n.y)) - 100;
-  const maxY = Math.max(...positionedNodes.map(n => n.y)) + 100;
-  const width = maxX - minX;
-  const height = maxY - minY;
+  const { minX, minY, width, height } = layout.bounds;
 
   return (
-    <div className="p-6 overflow-auto">
-      <div className="relative" style={{ width: `${width}px`, height: `${height}px` }}>
+    <div className="p-6">
+      <div ref={layerRef} className="relative" style={{ width: `${width}px`, height: `${height}px` }}>
         <svg 
           width={width} 
           height={height} 
@@ -147,34 +100,64 @@ export const RadialMindMap: React.FC<RadialMindMapProps> = ({
                     y1={node.y}
                     x2={childNode.x}
                     y2={childNode.y}
-                    stroke="#cbd5e1"
+                    stroke={theme.connectorColor}
                     strokeWidth="2"
                     className="transition-all duration-300"
                   />
                 );
               })
           )}
+          
+          {/* Draw cross-links as dashed curves bowed away from the straight line */}
+          <CrossLinkMarker id="radial-cross-link-arrow" />
+          {crossLinks.map(link => {
+            const source = positionedNodes.find(p => p.id === link.sourceId);
+            const target = positionedNodes.find(p => p.id === link.targetId);
+            if (!source || !target) return null;
+            
+            const midX = (source.x + target.x) / 2;
+            const midY = (source.y + target.y) / 2;
+            const controlX = midX - (target.y - source.y) * 0.25;
+            const controlY = midY + (target.x - source.x) * 0.25;
+            
+            return (
+              <path
+                key={link.id}
+                d={`M ${source.x} ${source.y} Q ${controlX} ${controlY} ${target.x} ${target.y}`}
+                fill="none"
+                stroke={CROSS_LINK_COLOR}
+                strokeWidth="2"
+                strokeDasharray="6 4"
+                markerEnd="url(#radial-cross-link-arrow)"
+                opacity="0.8"
+              />
+            );
+          })}
         </svg>
 
         {/* Render nodes */}
         {positionedNodes.map(node => (
-          <div
+          <EditableNode
             key={node.id}
+            node={node}
+            editor={editor}
             className={`
-              absolute transform -translate-x-1/2 -translate-y-1/2 
+              absolute transform -translate-x-1/2 -translate-y-1/2 w-max
               px-3 py-2 rounded-lg shadow-md cursor-pointer select-none
-              transition-all duration-300 hover:shadow-lg hover:scale-105
-              ${getNodeColor(node.level)}
-              ${highlightedNodes?.has(node.id) ? 'ring-4 ring-yellow-400 ring-opacity-50' : ''}
+              transition duration-300 hover:shadow-lg hover:scale-105
+              ${activeNodeId === node.id ? 'ring-4 ring-orange-500' : highlightedNodes?.has(node.id) ? 'ring-4 ring-yellow-400 ring-opacity-50' : ''}
               ${node.children.length > 0 ? 'cursor-pointer' : ''}
+              ${getNodeStyleClass(node)}
             `}
             style={{
               left: `${node.x - minX}px`,
               top: `${node.y - minY}px`,
               minWidth: '80px',
-              maxWidth: '200px'
+              maxWidth: '200px',
+              ...getStyledNode(node)
             }}
             onClick={() => node.children.length > 0 && onToggleExpand(node.id)}
+            title={getNodeTooltip(node)}
           >
             <div className="flex items-center gap-2">
               {node.children.length > 0 && (
@@ -182,11 +165,27 @@ export const RadialMindMap: React.FC<RadialMindMapProps> = ({
                   {node.isExpanded ? '−' : '+'}
                 </div>
               )}
-              <span className="font-medium text-sm leading-tight text-center">
-                {highlightText(node.label, searchQuery || '')}
-              </span>
+              {node.icon && <span className="flex-shrink-0 leading-none">{node.icon}</span>}
+              <NodeIcon name={node.iconName} />
+              <div className="flex flex-col items-center gap-1 min-w-0">
+                {editor?.editingNodeId === node.id ? (
+                  <NodeLabelInput
+                    label={node.label}
+                    onCommit={(label) => editor.onRename(node.id, label)}
+                    onCancel={() => editor.onStartRename(null)}
+                  />
+                ) : (
+                  <span className="font-medium text-sm leading-tight text-center" style={getEmphasisStyle(node)}>
+                    {highlightText(getDisplayLabel(node.label), searchQuery || '')}
+                  </span>
+                )}
+                <NodeMetadata node={node} />
+              </div>
+              {node.priority && <PriorityBadge priority={node.priority} />}
+              {node.note && <StickyNote size={12} className="flex-shrink-0 opacity-75" />}
+              <NodeLink link={node.link} />
             </div>
-          </div>
+          </EditableNode>
         ))}
       </div>
     </div>
@@ -1,12 +1,44 @@
-import React from 'react';
-import { FileText, Lightbulb } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileText, Lightbulb, Upload, AlertCircle, X } from 'lucide-react';
+import { Diagnostic, DiagnosticFix, DiagnosticSeverity, InputFormat } from '../../types/mindmap';
+import { detectInputFormat } from '../../lib/parser';
+import { IMPORT_ACCEPT } from '../../lib/importUtils';
+import { normalizeIndentation } from '../../lib/diagnostics';
+import { ProblemsPanel } from './ProblemsPanel';
 
 interface TextInputProps {
   value: string;
   onChange: (value: string) => void;
+  format: InputFormat;
+  onFormatChange: (format: InputFormat) => void;
+  onImportFile: (file: File) => void;
+  importError?: string | null;
+  onDismissImportError?: () => void;
+  diagnostics?: Diagnostic[];
+  /** Whether the last parsed text has indentation to normalize */
+  canNormalize?: boolean;
   placeholder?: string;
 }
 
+// Must match the textarea's line height (leading-5) and vertical padding (p-4)
+const LINE_HEIGHT = 20;
+const EDITOR_PADDING = 16;
+
+const severityRank: Record<DiagnosticSeverity, number> = { error: 3, warning: 2, info: 1 };
+
+const gutterMarkerStyles: Record<DiagnosticSeverity, string> = {
+  error: 'bg-red-500',
+  warning: 'bg-amber-400',
+  info: 'bg-blue-400'
+};
+
+const formatOptions: { value: InputFormat; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'plain', label: 'Indented' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'mermaid', label: 'Mermaid' }
+];
+
 const exampleText = `OO7: Senior Site Security Coordinator
   Key Accountabilities:
     • Standardise security policies/procedures
@@ -30,44 +62,245 @@ const exampleText = `OO7: Senior Site Security Coordinator
 export const TextInput: React.FC<TextInputProps> = ({
   value,
   onChange,
+  format,
+  onFormatChange,
+  onImportFile,
+  importError,
+  onDismissImportError,
+  diagnostics = [],
+  canNormalize = false,
   placeholder = "Enter your structured text here..."
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [editorHeight, setEditorHeight] = useState(0);
+  
+  const lineCount = value.split('\n').length;
+  
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const observer = new ResizeObserver(() => setEditorHeight(textarea.clientHeight));
+    observer.observe(textarea);
+    return () => observer.disconnect();
+  }, []);
+  
+  // Only the gutter lines scrolled into view are rendered, so long texts stay quick to edit
+  const firstGutterLine = Math.max(0, Math.floor((scrollTop - EDITOR_PADDING) / LINE_HEIGHT));
+  const lastGutterLine = Math.min(lineCount, Math.ceil((scrollTop + editorHeight) / LINE_HEIGHT) + 1);
+  
+  // Most severe diagnostic per line, for the gutter markers
+  const lineMarkers = useMemo(() => {
+    const markers = new Map<number, { severity: DiagnosticSeverity; messages: string[] }>();
+    diagnostics.forEach(diagnostic => {
+      const marker = markers.get(diagnostic.lineNumber);
+      if (!marker) {
+        markers.set(diagnostic.lineNumber, { severity: diagnostic.severity, messages: [diagnostic.message] });
+        return;
+      }
+      marker.messages.push(diagnostic.message);
+      if (severityRank[diagnostic.severity] > severityRank[marker.severity]) {
+        marker.severity = diagnostic.severity;
+      }
+    });
+    return markers;
+  }, [diagnostics]);
+  
+  const handleSelectLine = (lineNumber: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    
+    const lines = value.split('\n');
+    const start = lines.slice(0, lineNumber - 1).reduce((sum, line) => sum + line.length + 1, 0);
+    const end = start + (lines[lineNumber - 1]?.length ?? 0);
+    
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+    textarea.scrollTop = Math.max(0, (lineNumber - 1) * LINE_HEIGHT - textarea.clientHeight / 2);
+  };
+  
+  const handleApplyFix = (fix: DiagnosticFix) => {
+    const lines = value.split('\n');
+    lines[fix.lineNumber - 1] = fix.replacement;
+    onChange(lines.join('\n'));
+  };
+  
   const handleLoadExample = () => {
     onChange(exampleText);
   };
   
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportFile(file);
+    }
+    // Allow re-importing the same file
+    e.target.value = '';
+  };
+  
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+  
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Ignore leave events fired when moving between child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+  
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const file = e.dataTransfer.files[0];
+    setIsDragging(false);
+    if (!file) return;
+    e.preventDefault();
+    onImportFile(file);
+  };
+  
+  const detectedFormat = format === 'auto' && value.trim() ? detectInputFormat(value) : null;
+  
   return (
-    <div className="h-full flex flex-col">
-      <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+    <div
+      className="h-full flex flex-col relative"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-blue-50 bg-opacity-90 border-2 border-dashed border-blue-400 rounded-lg pointer-events-none">
+          <div className="flex flex-col items-center gap-2 text-blue-600">
+            <Upload size={32} />
+            <span className="text-sm font-medium">Drop a JSON, OPML or FreeMind file to import</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+        <div className="flex items-center gap-2">
+          <FileText size={16} className="text-gray-600 dark:text-gray-300" />
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-200">Input Text</span>
+          {detectedFormat && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              (detected: {formatOptions.find(option => option.value === detectedFormat)?.label})
+            </span>
+          )}
+        </div>
         <div className="flex items-center gap-2">
-          <FileText size={16} className="text-gray-600" />
-          <span className="text-sm font-medium text-gray-700">Input Text</span>
+          <div className="flex bg-gray-200 rounded-lg p-0.5">
+            {formatOptions.map(option => (
+              <button
+                key={option.value}
+                onClick={() => onFormatChange(option.value)}
+                className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                  format === option.value
+                    ? 'bg-white dark:bg-gray-800 text-blue-600 shadow-sm'
+                    : 'text-gray-600 dark:text-gray-300 hover:text-blue-600'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-3 py-1 text-xs bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Import JSON, OPML or FreeMind file"
+          >
+            <Upload size={12} />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            onChange={handleFileSelected}
+            className="hidden"
+          />
+          <button
+            onClick={handleLoadExample}
+            className="flex items-center gap-1 px-3 py-1 text-xs bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            <Lightbulb size={12} />
+            Load Example
+          </button>
         </div>
-        <button
-          onClick={handleLoadExample}
-          className="flex items-center gap-1 px-3 py-1 text-xs bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-        >
-          <Lightbulb size={12} />
-          Load Example
-        </button>
       </div>
       
-      <div className="flex-1 p-4">
-        <textarea
-          value={value}
-          onChange={(e) => onChange(e.target.value)}
-          placeholder={placeholder}
-          className="w-full h-full resize-none border border-gray-300 rounded-lg p-4 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-          style={{ fontFamily: 'Monaco, Consolas, "Courier New", monospace' }}
-        />
+      {importError && (
+        <div className="flex items-center gap-2 mx-4 mt-4 px-3 py-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle size={14} className="flex-shrink-0" />
+          <span className="flex-1">{importError}</span>
+          {onDismissImportError && (
+            <button onClick={onDismissImportError} className="text-red-500 hover:text-red-700" title="Dismiss">
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      )}
+      
+      <div className="flex-1 p-4 min-h-0">
+        <div className="flex h-full border border-gray-300 dark:border-gray-600 rounded-lg overflow-hidden focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500">
+          {/* Line numbers and diagnostic markers, scrolled with the textarea */}
+          <div className="w-12 flex-shrink-0 bg-gray-50 dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 overflow-hidden select-none" aria-hidden="true">
+            <div className="relative" style={{ transform: `translateY(${EDITOR_PADDING - scrollTop}px)` }}>
+              {Array.from({ length: Math.max(lastGutterLine - firstGutterLine, 0) }, (_, offset) => {
+                const index = firstGutterLine + offset;
+                const marker = lineMarkers.get(index + 1);
+                return (
+                  <div
+                    key={index}
+                    className="absolute inset-x-0 flex items-center justify-end gap-1 pr-2 text-xs text-gray-400 font-mono"
+                    style={{ top: index * LINE_HEIGHT, height: LINE_HEIGHT }}
+                    title={marker?.messages.join('\n')}
+                  >
+                    {marker && <span className={`w-2 h-2 rounded-full ${gutterMarkerStyles[marker.severity]}`} />}
+                    {index + 1}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            placeholder={placeholder}
+            wrap="off"
+            spellCheck={false}
+            className="flex-1 h-full resize-none p-4 bg-white dark:bg-gray-900 dark:text-gray-100 font-mono text-sm leading-5 whitespace-pre overflow-auto focus:outline-none"
+            style={{ fontFamily: 'Monaco, Consolas, "Courier New", monospace' }}
+          />
+        </div>
       </div>
       
-      <div className="p-4 border-t border-gray-200 bg-gray-50">
-        <div className="text-xs text-gray-600">
+      <ProblemsPanel
+        diagnostics={diagnostics}
+        onSelectLine={handleSelectLine}
+        onApplyFix={handleApplyFix}
+        onNormalizeIndentation={canNormalize ? () => onChange(normalizeIndentation(value, format)) : undefined}
+      />
+      
+      <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+        <div className="text-xs text-gray-600 dark:text-gray-300">
           <div className="font-medium mb-1">Formatting Tips:</div>
           <ul className="space-y-1">
-            <li>• Use indentation (2 spaces) to create hierarchy</li>
-            <li>• Bullet points (•, -, *) are automatically cleaned</li>
+            <li>• Use indentation (tabs, 2 or 4 spaces) to create hierarchy</li>
+            <li>• Bullet points (•, -, *, +) are automatically cleaned</li>
+            <li>• Markdown headings (#, ##) become top-level branches</li>
+            <li>• Paste a Mermaid mindmap block to import it</li>
+            <li>• Drop a JSON, OPML or FreeMind file here to import it</li>
+            <li>• Lines starting with &gt; add a note to the node above</li>
+            <li>• Add #tags, !1–!3 priority, a leading emoji icon and key:: value properties</li>
+            <li>• Link across branches with [[Node label]] or an anchor: {'{#id}'} … [[#id]]</li>
+            <li>• End a line with {'{color=#hex background=#hex link=url}'} to style it</li>
+            <li>• Shape, emphasis and icons go in the same block: {'{shape=pill icon=star bold italic important}'}</li>
+            <li>• Put a backslash before a character to keep it as text, e.g. \#1 or \- 5 °C</li>
+            <li>• Double-click a node on the map to rename it, right-click to style it, or drag it onto another node to move it</li>
             <li>• Empty lines are ignored</li>
             <li>• Each line becomes a node in your mind map</li>
           </ul>
@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Palette, Plus, X, Save, Trash2, Sun, Moon } from 'lucide-react';
+import { MindMapTheme, PaletteMode } from '../../types/mindmap';
+import { BUILT_IN_THEMES, DEFAULT_THEME, THEME_FONTS } from '../../lib/themes';
+
+interface ThemeControlsProps {
+  theme: MindMapTheme;
+  customThemes: MindMapTheme[];
+  onThemeChange: (theme: MindMapTheme) => void;
+  onCustomThemesChange: (themes: MindMapTheme[]) => void;
+}
+
+const colorFields: { key: 'rootColor' | 'nodeTextColor' | 'textColor' | 'connectorColor' | 'background'; label: string }[] = [
+  { key: 'rootColor', label: 'Root' },
+  { key: 'nodeTextColor', label: 'Node text' },
+  { key: 'textColor', label: 'Text' },
+  { key: 'connectorColor', label: 'Connectors' },
+  { key: 'background', label: 'Background' }
+];
+
+/**
+ * Theme picker with an editor for the current theme. Edits to a saved
+ * theme are stored straight away; edits to a built-in theme stay a draft
+ * until saved under a new name.
+ */
+export const ThemeControls: React.FC<ThemeControlsProps> = ({
+  theme,
+  customThemes,
+  onThemeChange,
+  onCustomThemesChange
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const themes = [...BUILT_IN_THEMES, ...customThemes];
+  const isModified = !themes.includes(theme);
+  const isCustom = customThemes.some(custom => custom.id === theme.id);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!panelRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const updateTheme = (update: Partial<MindMapTheme>) => {
+    const next = { ...theme, ...update };
+    if (isCustom) {
+      onCustomThemesChange(customThemes.map(custom => (custom.id === next.id ? next : custom)));
+    }
+    onThemeChange(next);
+  };
+
+  const updatePaletteColor = (index: number, color: string) => {
+    updateTheme({ palette: theme.palette.map((existing, i) => (i === index ? color : existing)) });
+  };
+
+  const handleSave = () => {
+    const name = saveName.trim();
+    if (!name) return;
+    const saved: MindMapTheme = { ...theme, id: `custom-${Date.now()}`, name, isBuiltIn: false };
+    onCustomThemesChange([...customThemes, saved]);
+    onThemeChange(saved);
+    setSaveName('');
+  };
+
+  const handleDelete = () => {
+    onCustomThemesChange(customThemes.filter(custom => custom.id !== theme.id));
+    onThemeChange(DEFAULT_THEME);
+  };
+
+  const labelClass = 'flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-gray-300';
+  const colorInputClass = 'w-8 h-6 p-0 border border-gray-300 dark:border-gray-600 rounded cursor-pointer bg-transparent';
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-lg transition-colors ${
+          isOpen
+            ? 'bg-blue-100 text-blue-600'
+            : 'text-gray-600 dark:text-gray-300 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-gray-700'
+        }`}
+        title="Theme"
+        aria-expanded={isOpen}
+      >
+        <Palette size={16} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-72 p-3 space-y-3 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <select
+              value={isModified ? '' : theme.id}
+              onChange={(e) => {
+                const selected = themes.find(candidate => candidate.id === e.target.value);
+                if (selected) onThemeChange(selected);
+              }}
+              className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Theme"
+            >
+              {isModified && <option value="" disabled>{theme.name} (modified)</option>}
+              <optgroup label="Built-in">
+                {BUILT_IN_THEMES.map(builtIn => (
+                  <option key={builtIn.id} value={builtIn.id}>{builtIn.name}</option>
+                ))}
+              </optgroup>
+              {customThemes.length > 0 && (
+                <optgroup label="Saved">
+                  {customThemes.map(custom => (
+                    <option key={custom.id} value={custom.id}>{custom.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <button
+              onClick={() => updateTheme({ mode: theme.mode === 'dark' ? 'light' : 'dark' })}
+              className="p-1.5 rounded text-gray-600 dark:text-gray-300 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors"
+              title={theme.mode === 'dark' ? 'Use light interface' : 'Use dark interface'}
+            >
+              {theme.mode === 'dark' ? <Sun size={16} /> : <Moon size={16} />}
+            </button>
+            {isCustom && (
+              <button
+                onClick={handleDelete}
+                className="p-1.5 rounded text-gray-600 dark:text-gray-300 hover:text-red-600 hover:bg-red-50 dark:hover:bg-gray-700 transition-colors"
+                title="Delete this theme"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <label className={labelClass}>
+              Colour nodes
+              <select
+                value={theme.paletteMode}
+                onChange={(e) => updateTheme({ paletteMode: e.target.value as PaletteMode })}
+                className="text-xs bg-transparent focus:outline-none"
+              >
+                <option value="level">By level</option>
+                <option value="branch">By branch</option>
+              </select>
+            </label>
+            <div className="flex flex-wrap items-center gap-1">
+              {theme.palette.map((color, index) => (
+                <span key={index} className="relative group">
+                  <input
+                    type="color"
+                    value={color}
+                    onChange={(e) => updatePaletteColor(index, e.target.value)}
+                    className={colorInputClass}
+                    aria-label={`Palette colour ${index + 1}`}
+                  />
+                  {theme.palette.length > 1 && (
+                    <button
+                      onClick={() => updateTheme({ palette: theme.palette.filter((_, i) => i !== index) })}
+                      className="absolute -top-1.5 -right-1.5 hidden group-hover:block p-0.5 rounded-full bg-gray-700 text-white"
+                      title="Remove colour"
+                    >
+                      <X size={8} />
+                    </button>
+                  )}
+                </span>
+              ))}
+              <button
+                onClick={() => updateTheme({ palette: [...theme.palette, theme.palette[theme.palette.length - 1]] })}
+                className="p-1 rounded text-gray-600 dark:text-gray-300 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors"
+                title="Add colour"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+            {colorFields.map(field => (
+              <label key={field.key} className={labelClass}>
+                {field.label}
+                <input
+                  type="color"
+                  value={theme[field.key]}
+                  onChange={(e) => updateTheme({ [field.key]: e.target.value })}
+                  className={colorInputClass}
+                />
+              </label>
+            ))}
+          </div>
+
+          <label className={labelClass}>
+            Font
+            <select
+              value={theme.fontFamily}
+              onChange={(e) => updateTheme({ fontFamily: e.target.value })}
+              className="text-xs bg-transparent focus:outline-none"
+            >
+              {!THEME_FONTS.some(font => font.value === theme.fontFamily) && (
+                <option value={theme.fontFamily}>Custom</option>
+              )}
+              {THEME_FONTS.map(font => (
+                <option key={font.name} value={font.value}>{font.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+            className="flex items-center gap-2 pt-2 border-t border-gray-200 dark:border-gray-700"
+          >
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="Save as new theme..."
+              className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!saveName.trim()}
+              className="p-1.5 rounded text-gray-600 dark:text-gray-300 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-gray-700 disabled:opacity-40 transition-colors"
+              title="Save theme"
+            >
+              <Save size={16} />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
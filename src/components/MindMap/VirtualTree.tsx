@@ -0,0 +1,203 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CrossLink, MindMapNode, NodeEditor, NodeSize } from '../../types/mindmap';
+import { flattenVisibleRows } from '../../lib/parser';
+import { MindMapNodeComponent } from './MindMapNode';
+import { CrossLinkOverlay } from './CrossLinkOverlay';
+import { useNodeSizes } from './useNodeSizes';
+import { useNodeTransitions } from './useNodeTransitions';
+import { ContentRect, useReportNodeOutlines, useVisibleArea } from './viewportContext';
+import { useTreeKeyboard } from './useTreeKeyboard';
+import { useNodeFills, useTheme } from './themeContext';
+
+interface VirtualTreeProps {
+  nodes: MindMapNode[];
+  onToggleExpand: (nodeId: string) => void;
+  searchQuery?: string;
+  highlightedNodes?: Set<string>;
+  activeNodeId?: string | null;
+  crossLinks?: CrossLink[];
+  editor?: NodeEditor;
+}
+
+// Indentation per level, space between rows and the size assumed for rows not yet measured
+const INDENT = 40;
+const ROW_GAP = 12;
+const ESTIMATED_SIZE: NodeSize = { width: 280, height: 46 };
+// Extra rows rendered above and below the visible area, in pixels
+const OVERSCAN = 400;
+
+/**
+ * Tree view that only renders the rows in or near the visible area of
+ * the surrounding ZoomableViewport. Row heights are measured as rows
+ * render and estimated until then. The active search match, the node
+ * being renamed and the keyboard-focused row are always rendered so they
+ * can be scrolled to, edited and focused. Without a visible area, such
+ * as during a whole-map export, every row is rendered. The minimap gets
+ * every row's outline from the layout rather than from the rendered rows.
+ */
+export const VirtualTree: React.FC<VirtualTreeProps> = ({
+  nodes,
+  onToggleExpand,
+  searchQuery,
+  highlightedNodes,
+  activeNodeId,
+  crossLinks = [],
+  editor
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const sizes = useNodeSizes(layerRef);
+  useNodeTransitions(layerRef, nodes);
+  const theme = useTheme();
+  const fills = useNodeFills(nodes);
+  const visibleArea = useVisibleArea();
+  const reportNodeOutlines = useReportNodeOutlines();
+  // Offset of the list inside the viewport content
+  const [origin, setOrigin] = useState({ x: 0, y: 0 });
+
+  useLayoutEffect(() => {
+    let left = 0;
+    let top = 0;
+    let element: HTMLElement | null = layerRef.current;
+    while (element && !element.hasAttribute('data-viewport-content')) {
+      left += element.offsetLeft;
+      top += element.offsetTop;
+      element = element.offsetParent as HTMLElement | null;
+    }
+    setOrigin({ x: left, y: top });
+  }, []);
+
+  const rows = useMemo(() => flattenVisibleRows(nodes), [nodes]);
+  const { focusedId, handleKeyDown, handleFocus } = useTreeKeyboard({
+    rows,
+    containerRef: layerRef,
+    onToggleExpand,
+    onRename: editor?.onStartRename
+  });
+
+  const layout = useMemo(() => {
+    const offsets: number[] = [];
+    let top = 0;
+    let width = 0;
+    rows.forEach(row => {
+      const size = sizes.get(row.node.id) ?? ESTIMATED_SIZE;
+      offsets.push(top);
+      top += size.height + ROW_GAP;
+      width = Math.max(width, row.depth * INDENT + size.width);
+    });
+    return { offsets, width, height: Math.max(top - ROW_GAP, 0) };
+  }, [rows, sizes]);
+
+  useLayoutEffect(() => {
+    if (!reportNodeOutlines) return;
+    const outlines: ContentRect[] = rows.map((row, index) => {
+      const size = sizes.get(row.node.id) ?? ESTIMATED_SIZE;
+      return { x: origin.x + row.depth * INDENT, y: origin.y + layout.offsets[index], ...size };
+    });
+    reportNodeOutlines(outlines);
+  }, [reportNodeOutlines, rows, sizes, layout, origin]);
+
+  useEffect(() => () => reportNodeOutlines?.(null), [reportNodeOutlines]);
+
+  // First and last row overlapping the visible area
+  let first = 0;
+  let last = rows.length - 1;
+  if (visibleArea) {
+    const top = visibleArea.y - origin.y - OVERSCAN;
+    const bottom = visibleArea.y + visibleArea.height - origin.y + OVERSCAN;
+    let low = 0;
+    let high = rows.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (layout.offsets[middle + 1] !== undefined && layout.offsets[middle + 1] <= top) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    first = low;
+    last = first;
+    while (last + 1 < rows.length && layout.offsets[last + 1] <= bottom) last++;
+  }
+
+  const rendered = new Set<number>();
+  for (let index = first; index <= last && index < rows.length; index++) rendered.add(index);
+  rows.forEach((row, index) => {
+    const nodeId = row.node.id;
+    if (nodeId === activeNodeId || nodeId === editor?.editingNodeId || nodeId === focusedId) rendered.add(index);
+  });
+  const renderedRows = Array.from(rendered).sort((a, b) => a - b);
+
+  const overlayKey = useMemo(() => [layout, first, last], [layout, first, last]);
+
+  // Guides for ancestors with later siblings, plus the elbow into each row
+  const renderConnectors = (index: number) => {
+    const row = rows[index];
+    if (row.depth === 0) return null;
+    const size = sizes.get(row.node.id) ?? ESTIMATED_SIZE;
+    const top = layout.offsets[index] - ROW_GAP;
+    const middle = layout.offsets[index] + size.height / 2;
+    const bottom = layout.offsets[index] + size.height;
+    const column = (depth: number) => (depth - 1) * INDENT + 12;
+
+    return (
+      <g key={row.node.id}>
+        {row.guides.map((continues, level) => continues && (
+          <line key={level} x1={column(level + 1)} y1={top} x2={column(level + 1)} y2={bottom} />
+        ))}
+        <line x1={column(row.depth)} y1={top} x2={column(row.depth)} y2={row.isLast ? middle : bottom} />
+        <line x1={column(row.depth)} y1={middle} x2={row.depth * INDENT} y2={middle} />
+      </g>
+    );
+  };
+
+  return (
+    <div className="p-6">
+      <div
+        ref={layerRef}
+        role="tree"
+        aria-label="Mind map"
+        className="relative"
+        style={{ width: `${layout.width}px`, height: `${layout.height}px` }}
+        onKeyDown={handleKeyDown}
+        onFocus={handleFocus}
+      >
+        <svg
+          width={layout.width}
+          height={layout.height}
+          className="absolute inset-0 pointer-events-none overflow-visible"
+          stroke={theme.connectorColor}
+          strokeWidth="1"
+        >
+          {renderedRows.map(renderConnectors)}
+        </svg>
+
+        {renderedRows.map(index => {
+          const { node, depth, position, setSize } = rows[index];
+          return (
+            <div
+              key={node.id}
+              className="absolute w-max"
+              style={{ top: `${layout.offsets[index]}px`, left: `${depth * INDENT}px`, maxWidth: '480px' }}
+            >
+              <MindMapNodeComponent
+                node={node}
+                onToggleExpand={onToggleExpand}
+                searchQuery={searchQuery}
+                isHighlighted={highlightedNodes?.has(node.id)}
+                isActive={activeNodeId === node.id}
+                editor={editor}
+                level={depth + 1}
+                setSize={setSize}
+                posInSet={position}
+                isFocused={focusedId === node.id}
+                fill={fills.get(node.id)}
+              />
+            </div>
+          );
+        })}
+
+        <CrossLinkOverlay containerRef={layerRef} links={crossLinks} layoutKey={overlayKey} />
+      </div>
+    </div>
+  );
+};
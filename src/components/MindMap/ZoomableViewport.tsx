@@ -0,0 +1,404 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize, LocateFixed } from 'lucide-react';
+import { ContentRect, NodeOutlinesContext, VisibleArea, VisibleAreaContext } from './viewportContext';
+import { useTheme } from './themeContext';
+import { RENDER_ALL_EVENT } from '../../lib/exportUtils';
+
+interface ZoomableViewportProps {
+  children: React.ReactNode;
+  layoutKey?: unknown;
+  focusNodeId?: string | null;
+  /** Node to outline, e.g. the one focused in an AccessibleNodeList */
+  outlineNodeId?: string | null;
+}
+
+interface ViewportTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+interface MinimapData {
+  width: number;
+  height: number;
+  nodes: ContentRect[];
+}
+
+type Gesture =
+  | { type: 'pan'; startX: number; startY: number; origin: ViewportTransform }
+  | { type: 'pinch'; startDistance: number; centerX: number; centerY: number; origin: ViewportTransform };
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 3;
+const ZOOM_STEP = 1.2;
+const FIT_PADDING = 24;
+const MINIMAP_WIDTH = 160;
+const MINIMAP_HEIGHT = 110;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// Pointer-downs on nodes and controls keep their own behaviour instead of panning
+const isInteractiveTarget = (target: EventTarget | null) =>
+  target instanceof Element && !!target.closest('[data-node-id], button, input, a, [data-minimap]');
+
+// Positions of elements in unscaled content coordinates
+const measureElements = (content: HTMLElement, elements: Element[]): ContentRect[] => {
+  const contentRect = content.getBoundingClientRect();
+  const scale = content.offsetWidth ? contentRect.width / content.offsetWidth : 1;
+  return elements.map(element => {
+    const rect = element.getBoundingClientRect();
+    return {
+      x: (rect.left - contentRect.left) / scale,
+      y: (rect.top - contentRect.top) / scale,
+      width: rect.width / scale,
+      height: rect.height / scale
+    };
+  });
+};
+
+/**
+ * Pan/zoom surface for the 2D views: wheel or pinch to zoom, drag the
+ * background to pan, plus zoom-to-fit, zoom-to-selection and a minimap.
+ * Nodes are found through their data-node-id attribute and are panned into
+ * view when they receive keyboard focus. The viewport and content carry
+ * data-viewport / data-viewport-content for the exporters, which can ask
+ * windowed views to render every node while they capture the whole map.
+ */
+export const ZoomableViewport: React.FC<ZoomableViewportProps> = ({
+  children,
+  layoutKey,
+  focusNodeId,
+  outlineNodeId
+}) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [transform, setTransform] = useState<ViewportTransform>({ x: 0, y: 0, scale: 1 });
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [minimap, setMinimap] = useState<MinimapData>({ width: 0, height: 0, nodes: [] });
+  const [outline, setOutline] = useState<ContentRect | null>(null);
+  const [isRenderingAll, setIsRenderingAll] = useState(false);
+  // Outlines of every node from views that only render some of them
+  const [reportedOutlines, setReportedOutlines] = useState<ContentRect[] | null>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<Gesture | null>(null);
+  const selectedNodeRef = useRef<string | null>(null);
+  const focusedNodeRef = useRef<string | null>(null);
+  const theme = useTheme();
+
+  // Position of a node element in unscaled content coordinates
+  const measureNode = useCallback((nodeId: string): ContentRect | null => {
+    const content = contentRef.current;
+    const element = content?.querySelector(`[data-node-id="${CSS.escape(nodeId)}"]`);
+    return content && element ? measureElements(content, [element])[0] : null;
+  }, []);
+
+  const zoomAt = useCallback((factor: number, centerX: number, centerY: number) => {
+    setTransform(current => {
+      const scale = clampScale(current.scale * factor);
+      const ratio = scale / current.scale;
+      return {
+        scale,
+        x: centerX - (centerX - current.x) * ratio,
+        y: centerY - (centerY - current.y) * ratio
+      };
+    });
+  }, []);
+
+  const centerOn = useCallback((rect: ContentRect, scale: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    setTransform({
+      scale,
+      x: viewport.clientWidth / 2 - (rect.x + rect.width / 2) * scale,
+      y: viewport.clientHeight / 2 - (rect.y + rect.height / 2) * scale
+    });
+  }, []);
+
+  const zoomToFit = useCallback(() => {
+    const viewport = viewportRef.current;
+    const content = contentRef.current;
+    if (!viewport || !content || !content.scrollWidth || !content.scrollHeight) return;
+
+    const scale = clampScale(Math.min(
+      (viewport.clientWidth - FIT_PADDING * 2) / content.scrollWidth,
+      (viewport.clientHeight - FIT_PADDING * 2) / content.scrollHeight,
+      1
+    ));
+    setTransform({
+      scale,
+      x: (viewport.clientWidth - content.scrollWidth * scale) / 2,
+      y: (viewport.clientHeight - content.scrollHeight * scale) / 2
+    });
+  }, []);
+
+  const zoomToSelection = () => {
+    const nodeId = selectedNodeRef.current ?? focusNodeId;
+    const rect = nodeId ? measureNode(nodeId) : null;
+    if (rect) centerOn(rect, Math.max(transform.scale, 1.5));
+  };
+
+  const zoomBy = (factor: number) => {
+    const viewport = viewportRef.current;
+    if (viewport) zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  };
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(Math.exp(-event.deltaY * 0.002), event.clientX - rect.left, event.clientY - rect.top);
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handleRenderAll = (event: Event) => setIsRenderingAll((event as CustomEvent<boolean>).detail);
+    viewport.addEventListener(RENDER_ALL_EVENT, handleRenderAll);
+    return () => viewport.removeEventListener(RENDER_ALL_EVENT, handleRenderAll);
+  }, []);
+
+  // Track the viewport size and the node outlines drawn in the minimap
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    const content = contentRef.current;
+    if (!viewport || !content) return;
+
+    const measure = () => {
+      setViewportSize({ width: viewport.clientWidth, height: viewport.clientHeight });
+      const nodeRects = reportedOutlines
+        ?? measureElements(content, Array.from(content.querySelectorAll('[data-node-id]')));
+      setMinimap({ width: content.scrollWidth, height: content.scrollHeight, nodes: nodeRects });
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, [layoutKey, reportedOutlines]);
+
+  // Center the focused node once each time it changes, as soon as it is rendered
+  useEffect(() => {
+    if (!focusNodeId) {
+      focusedNodeRef.current = null;
+      return;
+    }
+    if (focusedNodeRef.current === focusNodeId) return;
+
+    const rect = measureNode(focusNodeId);
+    if (!rect) return;
+    centerOn(rect, transform.scale);
+    focusedNodeRef.current = focusNodeId;
+  }, [focusNodeId, layoutKey, measureNode, centerOn, transform.scale]);
+
+  useLayoutEffect(() => {
+    setOutline(outlineNodeId ? measureNode(outlineNodeId) : null);
+  }, [outlineNodeId, layoutKey, measureNode]);
+
+  // Pan to nodes that receive keyboard focus outside the visible area
+  const handleFocus = (event: React.FocusEvent<HTMLDivElement>) => {
+    const target = event.target as Element;
+    const nodeId = target.closest<HTMLElement>('[data-node-id]')?.dataset.nodeId;
+    if (!nodeId || !target.matches(':focus-visible')) return;
+    const rect = measureNode(nodeId);
+    if (!rect) return;
+
+    const left = rect.x * transform.scale + transform.x;
+    const top = rect.y * transform.scale + transform.y;
+    const right = left + rect.width * transform.scale;
+    const bottom = top + rect.height * transform.scale;
+    if (left < 0 || top < 0 || right > viewportSize.width || bottom > viewportSize.height) {
+      centerOn(rect, transform.scale);
+    }
+  };
+
+  // Focusing a node can scroll the viewport itself; panning goes through the transform
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    event.currentTarget.scrollTop = 0;
+    event.currentTarget.scrollLeft = 0;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    if (pointers.size === 0 && event.pointerType === 'mouse' && isInteractiveTarget(event.target)) return;
+
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const [first, second] = Array.from(pointers.values());
+    if (second) {
+      gestureRef.current = {
+        type: 'pinch',
+        startDistance: Math.hypot(second.x - first.x, second.y - first.y) || 1,
+        centerX: (first.x + second.x) / 2 - rect.left,
+        centerY: (first.y + second.y) / 2 - rect.top,
+        origin: transform
+      };
+    } else {
+      gestureRef.current = { type: 'pan', startX: event.clientX, startY: event.clientY, origin: transform };
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    const gesture = gestureRef.current;
+    if (!gesture || !pointers.has(event.pointerId)) return;
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (gesture.type === 'pan') {
+      setTransform({
+        ...gesture.origin,
+        x: gesture.origin.x + event.clientX - gesture.startX,
+        y: gesture.origin.y + event.clientY - gesture.startY
+      });
+      return;
+    }
+
+    const [first, second] = Array.from(pointers.values());
+    if (!second) return;
+    const { origin, centerX, centerY } = gesture;
+    const scale = clampScale(origin.scale * Math.hypot(second.x - first.x, second.y - first.y) / gesture.startDistance);
+    const ratio = scale / origin.scale;
+    setTransform({
+      scale,
+      x: centerX - (centerX - origin.x) * ratio,
+      y: centerY - (centerY - origin.y) * ratio
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(event.pointerId);
+    gestureRef.current = null;
+  };
+
+  // Minimap scale and the part of the map currently in view
+  const minimapScale = minimap.width && minimap.height
+    ? Math.min(MINIMAP_WIDTH / minimap.width, MINIMAP_HEIGHT / minimap.height)
+    : 0;
+  const visibleArea = useMemo((): VisibleArea => ({
+    x: -transform.x / transform.scale,
+    y: -transform.y / transform.scale,
+    width: viewportSize.width / transform.scale,
+    height: viewportSize.height / transform.scale
+  }), [transform, viewportSize]);
+
+  const handleMinimapPointer = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.type === 'pointermove' && event.buttons !== 1) return;
+    event.stopPropagation();
+    const rect = event.currentTarget.getBoundingClientRect();
+    centerOn({
+      x: (event.clientX - rect.left) / minimapScale,
+      y: (event.clientY - rect.top) / minimapScale,
+      width: 0,
+      height: 0
+    }, transform.scale);
+  };
+
+  const controlButtonClass = 'p-1.5 text-gray-600 dark:text-gray-300 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-gray-700 rounded transition-colors';
+
+  return (
+    <div
+      ref={viewportRef}
+      data-viewport
+      className="relative w-full h-full overflow-hidden cursor-grab active:cursor-grabbing"
+      style={{ touchAction: 'none', backgroundColor: theme.background, fontFamily: theme.fontFamily }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onFocus={handleFocus}
+      onScroll={handleScroll}
+      onClickCapture={(event) => {
+        const node = (event.target as Element).closest<HTMLElement>('[data-node-id]');
+        if (node) selectedNodeRef.current = node.dataset.nodeId ?? null;
+      }}
+    >
+      <div
+        ref={contentRef}
+        data-viewport-content
+        className="absolute left-0 top-0 w-max"
+        style={{
+          transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+          transformOrigin: '0 0'
+        }}
+      >
+        <VisibleAreaContext.Provider value={isRenderingAll ? null : visibleArea}>
+          <NodeOutlinesContext.Provider value={setReportedOutlines}>
+            {children}
+          </NodeOutlinesContext.Provider>
+        </VisibleAreaContext.Provider>
+        {outline && (
+          <div
+            data-export-ignore
+            className="absolute pointer-events-none rounded-lg ring-4 ring-blue-500 ring-offset-2"
+            style={{ left: outline.x, top: outline.y, width: outline.width, height: outline.height }}
+          />
+        )}
+      </div>
+
+      <div data-export-ignore className="absolute top-3 right-3 z-20 flex items-center gap-0.5 p-1 bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+        <button onClick={() => zoomBy(1 / ZOOM_STEP)} className={controlButtonClass} title="Zoom out">
+          <ZoomOut size={16} />
+        </button>
+        <button
+          onClick={() => zoomBy(1 / transform.scale)}
+          className="w-12 text-xs text-gray-600 dark:text-gray-300 hover:text-blue-600 transition-colors"
+          title="Reset to 100%"
+        >
+          {Math.round(transform.scale * 100)}%
+        </button>
+        <button onClick={() => zoomBy(ZOOM_STEP)} className={controlButtonClass} title="Zoom in">
+          <ZoomIn size={16} />
+        </button>
+        <button onClick={zoomToFit} className={controlButtonClass} title="Zoom to fit">
+          <Maximize size={16} />
+        </button>
+        <button onClick={zoomToSelection} className={controlButtonClass} title="Zoom to the selected node or search match">
+          <LocateFixed size={16} />
+        </button>
+      </div>
+
+      {minimapScale > 0 && (
+        <div data-minimap data-export-ignore className="absolute bottom-3 right-3 z-20 p-1 bg-white dark:bg-gray-800 bg-opacity-90 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+          <svg
+            width={minimap.width * minimapScale}
+            height={minimap.height * minimapScale}
+            className="block cursor-pointer"
+            onPointerDown={handleMinimapPointer}
+            onPointerMove={handleMinimapPointer}
+          >
+            {minimap.nodes.map((rect, index) => (
+              <rect
+                key={index}
+                x={rect.x * minimapScale}
+                y={rect.y * minimapScale}
+                width={Math.max(rect.width * minimapScale, 1)}
+                height={Math.max(rect.height * minimapScale, 1)}
+                fill="#94a3b8"
+                rx="1"
+              />
+            ))}
+            <rect
+              x={visibleArea.x * minimapScale}
+              y={visibleArea.y * minimapScale}
+              width={visibleArea.width * minimapScale}
+              height={visibleArea.height * minimapScale}
+              fill="rgba(59, 130, 246, 0.12)"
+              stroke="#3b82f6"
+              strokeWidth="1.5"
+            />
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+};
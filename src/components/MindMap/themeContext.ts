@@ -0,0 +1,18 @@
+import { createContext, useContext, useMemo } from 'react';
+import { MindMapNode, MindMapTheme } from '../../types/mindmap';
+import { DEFAULT_THEME, getNodeFills } from '../../lib/themes';
+
+export const ThemeContext = createContext<MindMapTheme>(DEFAULT_THEME);
+
+/**
+ * Theme chosen for the map views and exports
+ */
+export const useTheme = (): MindMapTheme => useContext(ThemeContext);
+
+/**
+ * Fill colour of every node under the current theme
+ */
+export const useNodeFills = (nodes: MindMapNode[]): Map<string, string> => {
+  const theme = useTheme();
+  return useMemo(() => getNodeFills(theme, nodes), [theme, nodes]);
+};
@@ -0,0 +1,61 @@
+import React, { useLayoutEffect, useState } from 'react';
+import { NodeSize } from '../../types/mindmap';
+
+const isSameSize = (a: NodeSize, b: NodeSize) =>
+  Math.abs(a.width - b.width) <= 1 && Math.abs(a.height - b.height) <= 1;
+
+/**
+ * Track the rendered size of every [data-node-id] element in a layer,
+ * including ones added later. The returned map only changes when a size
+ * does, so layouts computed from it settle after one extra pass. Sizes of
+ * nodes that are no longer rendered are kept for views that only render
+ * part of the map.
+ */
+export const useNodeSizes = (layerRef: React.RefObject<HTMLElement>): Map<string, NodeSize> => {
+  const [sizes, setSizes] = useState<Map<string, NodeSize>>(new Map());
+
+  useLayoutEffect(() => {
+    const layer = layerRef.current;
+    if (!layer) return;
+
+    const resizeObserver = new ResizeObserver(entries => {
+      setSizes(current => {
+        let next: Map<string, NodeSize> | null = null;
+        for (const entry of entries) {
+          const element = entry.target as HTMLElement;
+          const nodeId = element.dataset.nodeId;
+          if (!nodeId || !element.isConnected) continue;
+
+          const size = { width: element.offsetWidth, height: element.offsetHeight };
+          const previous = current.get(nodeId);
+          if (previous && isSameSize(previous, size)) continue;
+          next = next ?? new Map(current);
+          next.set(nodeId, size);
+        }
+        return next ?? current;
+      });
+    });
+
+    const nodeElements = (root: Node): HTMLElement[] => {
+      if (!(root instanceof HTMLElement)) return [];
+      const elements = Array.from(root.querySelectorAll<HTMLElement>('[data-node-id]'));
+      return root.dataset.nodeId ? [root, ...elements] : elements;
+    };
+
+    nodeElements(layer).forEach(element => resizeObserver.observe(element));
+    const mutationObserver = new MutationObserver(records => {
+      records.forEach(record => {
+        record.removedNodes.forEach(node => nodeElements(node).forEach(element => resizeObserver.unobserve(element)));
+        record.addedNodes.forEach(node => nodeElements(node).forEach(element => resizeObserver.observe(element)));
+      });
+    });
+    mutationObserver.observe(layer, { childList: true, subtree: true });
+
+    return () => {
+      mutationObserver.disconnect();
+      resizeObserver.disconnect();
+    };
+  }, [layerRef]);
+
+  return sizes;
+};
@@ -0,0 +1,192 @@
+import React, { createContext, useContext, useLayoutEffect, useMemo, useRef } from 'react';
+import { MindMapNode } from '../../types/mindmap';
+import { flattenVisibleRows } from '../../lib/parser';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Where nodes were drawn at the last render, shared by the 2D views so a
+ * node can move from its place in one layout to its place in the next
+ */
+export interface NodeTransitionStore {
+  /** Centres of the rendered nodes in viewport content coordinates */
+  positions: Map<string, Point>;
+  /** Visible node ids with the id of their parent */
+  parents: Map<string, string | null>;
+}
+
+export interface NodeTransitionSettings {
+  enabled: boolean;
+  store: NodeTransitionStore;
+}
+
+export const NodeTransitionContext = createContext<NodeTransitionSettings | null>(null);
+
+export const createNodeTransitionStore = (): NodeTransitionStore => ({
+  positions: new Map(),
+  parents: new Map()
+});
+
+const DURATION = 300;
+const EASING = 'cubic-bezier(0.2, 0, 0, 1)';
+// Above this many moving nodes the change is applied without animation
+const MAX_ANIMATED_NODES = 300;
+const ANIMATION_ID = 'node-transition';
+
+const getVisibleParents = (nodes: MindMapNode[]): Map<string, string | null> => {
+  const parents = new Map<string, string | null>();
+  const stack: string[] = [];
+  flattenVisibleRows(nodes).forEach(({ node, depth }) => {
+    stack.length = depth;
+    parents.set(node.id, depth > 0 ? stack[depth - 1] : null);
+    stack.push(node.id);
+  });
+  return parents;
+};
+
+// Closest ancestor, starting with the parent, that is in the given set
+const findAncestorIn = (
+  nodeId: string,
+  parents: Map<string, string | null>,
+  ids: Map<string, unknown>
+): string | null => {
+  let ancestor = parents.get(nodeId) ?? null;
+  while (ancestor && !ids.has(ancestor)) ancestor = parents.get(ancestor) ?? null;
+  return ancestor;
+};
+
+const nodeElements = (root: Element): HTMLElement[] => {
+  const elements = Array.from(root.querySelectorAll<HTMLElement>('[data-node-id]'));
+  return root instanceof HTMLElement && root.dataset.nodeId ? [root, ...elements] : elements;
+};
+
+/**
+ * Animate the [data-node-id] elements of a layer between renders: nodes
+ * glide from their previous position, expanded children grow out of their
+ * parent and collapsed ones shrink back into it. Nodes are matched by id,
+ * also across layouts. Removed elements are briefly put back as
+ * non-interactive ghosts for their exit.
+ */
+export const useNodeTransitions = (layerRef: React.RefObject<HTMLElement>, nodes: MindMapNode[]) => {
+  const settings = useContext(NodeTransitionContext);
+  const observerRef = useRef<MutationObserver | null>(null);
+  const parents = useMemo(() => getVisibleParents(nodes), [nodes]);
+
+  // Collect removed elements so collapsed nodes can animate out
+  useLayoutEffect(() => {
+    const layer = layerRef.current;
+    if (!layer) return;
+    const observer = new MutationObserver(() => undefined);
+    observer.observe(layer, { childList: true, subtree: true });
+    observerRef.current = observer;
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [layerRef]);
+
+  useLayoutEffect(() => {
+    const layer = layerRef.current;
+    const records = observerRef.current?.takeRecords() ?? [];
+    if (!settings || !layer) return;
+
+    const { store, enabled } = settings;
+    const previousParents = store.parents;
+    store.parents = parents;
+    if (!enabled) {
+      store.positions = new Map();
+      return;
+    }
+
+    const content = layer.closest<HTMLElement>('[data-viewport-content]') ?? layer;
+    const contentRect = content.getBoundingClientRect();
+    const scale = content.offsetWidth ? contentRect.width / content.offsetWidth : 1;
+    const measure = (element: Element): Point => {
+      const rect = element.getBoundingClientRect();
+      return {
+        x: (rect.left + rect.width / 2 - contentRect.left) / scale,
+        y: (rect.top + rect.height / 2 - contentRect.top) / scale
+      };
+    };
+
+    // Nodes still moving continue from where they are drawn now
+    const elements = nodeElements(layer);
+    const drawn = new Map<string, Point>();
+    const current = new Map<string, Point>();
+    elements.forEach(element => {
+      const nodeId = element.dataset.nodeId as string;
+      const running = element.getAnimations().filter(animation => animation.id === ANIMATION_ID);
+      if (running.length > 0) {
+        drawn.set(nodeId, measure(element));
+        running.forEach(animation => animation.cancel());
+      }
+      current.set(nodeId, measure(element));
+    });
+    const positionOf = (nodeId: string | null) =>
+      nodeId ? current.get(nodeId) ?? store.positions.get(nodeId) : undefined;
+
+    const moves: Array<{ element: HTMLElement; from: Point; isEntering: boolean }> = [];
+    elements.forEach(element => {
+      const nodeId = element.dataset.nodeId as string;
+      const to = current.get(nodeId) as Point;
+      const isEntering = previousParents.size > 0 && !previousParents.has(nodeId);
+      const from = isEntering
+        ? positionOf(findAncestorIn(nodeId, parents, previousParents))
+        : drawn.get(nodeId) ?? store.positions.get(nodeId);
+      if (isEntering) {
+        moves.push({ element, from: from ?? to, isEntering });
+      } else if (from && Math.hypot(from.x - to.x, from.y - to.y) > 0.5) {
+        moves.push({ element, from, isEntering });
+      }
+    });
+
+    // Elements of nodes that are no longer visible at all
+    const exits: Array<{ ghost: Element; parent: Node; from: Point; to?: Point }> = [];
+    records.forEach(record => record.removedNodes.forEach(removed => {
+      if (!(removed instanceof Element) || !record.target.isConnected) return;
+      const ids = nodeElements(removed).map(element => element.dataset.nodeId as string);
+      const exitingId = ids.find(nodeId => previousParents.has(nodeId) && !parents.has(nodeId));
+      const from = exitingId ? store.positions.get(exitingId) : undefined;
+      if (!exitingId || !from || ids.some(nodeId => parents.has(nodeId))) return;
+      exits.push({
+        ghost: removed,
+        parent: record.target,
+        from,
+        to: positionOf(findAncestorIn(exitingId, previousParents, parents))
+      });
+    }));
+
+    // Only rendered nodes are kept, so rows scrolled into a virtualized view appear in place
+    store.positions = current;
+    if (moves.length + exits.length > MAX_ANIMATED_NODES) return;
+
+    const timing: KeyframeAnimationOptions = { id: ANIMATION_ID, duration: DURATION, easing: EASING };
+    moves.forEach(({ element, from, isEntering }) => {
+      const to = current.get(element.dataset.nodeId as string) as Point;
+      const offset = `translate(${from.x - to.x}px, ${from.y - to.y}px)`;
+      element.animate(
+        [{ transform: isEntering ? `${offset} scale(0.6)` : offset }, { transform: 'translate(0, 0)' }],
+        { ...timing, composite: 'add' }
+      );
+      if (isEntering) element.animate([{ opacity: 0 }, { opacity: 1 }], timing);
+    });
+
+    exits.forEach(({ ghost, parent, from, to }) => {
+      nodeElements(ghost).forEach(element => element.removeAttribute('data-node-id'));
+      ghost.setAttribute('aria-hidden', 'true');
+      ghost.setAttribute('data-export-ignore', '');
+      if (ghost instanceof HTMLElement) ghost.style.pointerEvents = 'none';
+      parent.appendChild(ghost);
+
+      const offset = to ? `translate(${to.x - from.x}px, ${to.y - from.y}px)` : 'translate(0, 0)';
+      ghost.animate(
+        [{ transform: 'translate(0, 0)' }, { transform: `${offset} scale(0.6)` }],
+        { ...timing, composite: 'add' }
+      );
+      ghost.animate([{ opacity: 1 }, { opacity: 0 }], { ...timing, fill: 'forwards' }).onfinish = () => ghost.remove();
+    });
+  });
+};
@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+import { InputFormat } from '../../types/mindmap';
+import { TextAnalysis, analyzeText } from '../../lib/diagnostics';
+import type { ParseRequest, ParseResponse } from '../../lib/parser.worker';
+
+export interface ParseResult extends TextAnalysis {
+  text: string;
+  format: InputFormat;
+}
+
+// Wait for a pause in typing before parsing
+const PARSE_DELAY = 150;
+
+const createParserWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('../../lib/parser.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Parser worker unavailable, parsing on the main thread:', error);
+    return null;
+  }
+};
+
+/**
+ * Parse text into nodes in a Web Worker, debounced while the text keeps
+ * changing, together with the checks the editor shows for it. The result
+ * always pairs the nodes with the exact text and
+ * format they came from; answers for text that has since changed are
+ * dropped. Falls back to parsing on the main thread without workers or
+ * once the worker fails.
+ */
+export const useParsedText = (text: string, format: InputFormat): ParseResult | null => {
+  const [result, setResult] = useState<ParseResult | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const latestRef = useRef<ParseRequest>({ id: 0, text, format });
+  // Request posted to the worker and not yet answered
+  const pendingIdRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const worker = createParserWorker();
+    workerRef.current = worker;
+    if (!worker) return;
+
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const { id, ...analysis } = event.data;
+      if (id === pendingIdRef.current) pendingIdRef.current = null;
+      const latest = latestRef.current;
+      if (id !== latest.id) return;
+      setResult({ text: latest.text, format: latest.format, ...analysis });
+    };
+    // A failed worker is dropped for good; the request it left unanswered
+    // and every later one are parsed on the main thread instead
+    const handleFailure = (error: Event) => {
+      console.warn('Parser worker failed, parsing on the main thread:', error);
+      worker.terminate();
+      workerRef.current = null;
+      const pendingId = pendingIdRef.current;
+      pendingIdRef.current = null;
+      const latest = latestRef.current;
+      if (pendingId !== latest.id) return;
+      setResult({ text: latest.text, format: latest.format, ...analyzeText(latest.text, latest.format) });
+    };
+    worker.onerror = handleFailure;
+    worker.onmessageerror = handleFailure;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const request: ParseRequest = { id: latestRef.current.id + 1, text, format };
+    latestRef.current = request;
+
+    if (!text.trim()) {
+      setResult({ text, format, nodes: [], diagnostics: [], canNormalize: false });
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const worker = workerRef.current;
+      if (worker) {
+        pendingIdRef.current = request.id;
+        worker.postMessage(request);
+      } else {
+        setResult({ text, format, ...analyzeText(text, format) });
+      }
+    }, PARSE_DELAY);
+    return () => clearTimeout(timer);
+  }, [text, format]);
+
+  return result;
+};
@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TreeRow } from '../../lib/parser';
+import { findTypeaheadMatch, getTreeKeyAction, TYPEAHEAD_TIMEOUT } from '../../lib/treeNavigation';
+
+interface TreeKeyboardOptions {
+  rows: TreeRow[];
+  containerRef: React.RefObject<HTMLElement>;
+  onToggleExpand: (nodeId: string) => void;
+  onRename?: (nodeId: string) => void;
+  onFocusNode?: (nodeId: string) => void;
+}
+
+interface TreeKeyboard {
+  /** The row that takes part in the tab order */
+  focusedId: string | null;
+  handleKeyDown: (event: React.KeyboardEvent) => void;
+  handleFocus: (event: React.FocusEvent) => void;
+}
+
+/**
+ * Roving tabindex and keyboard handling for a tree of [data-node-id] rows.
+ * Only the focused row is tabbable; arrow keys, Home/End and type-ahead
+ * move focus, which follows once the target row has rendered.
+ */
+export const useTreeKeyboard = ({
+  rows,
+  containerRef,
+  onToggleExpand,
+  onRename,
+  onFocusNode
+}: TreeKeyboardOptions): TreeKeyboard => {
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const pendingFocusRef = useRef<string | null>(null);
+  const typeaheadRef = useRef({ text: '', time: 0 });
+
+  // Fall back to the first row until a row is focused or when it disappears
+  const focusedIndex = rows.findIndex(row => row.node.id === focusedId);
+  const tabIndex = focusedIndex >= 0 ? focusedIndex : 0;
+  const tabStopId = rows[tabIndex]?.node.id ?? null;
+
+  useEffect(() => {
+    const nodeId = pendingFocusRef.current;
+    if (!nodeId) return;
+    const element = containerRef.current?.querySelector<HTMLElement>(`[data-node-id="${CSS.escape(nodeId)}"]`);
+    if (!element) return;
+    pendingFocusRef.current = null;
+    element.focus({ preventScroll: true });
+  });
+
+  const focusRow = (index: number) => {
+    const nodeId = rows[index].node.id;
+    pendingFocusRef.current = nodeId;
+    setFocusedId(nodeId);
+    onFocusNode?.(nodeId);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Leave keys typed into the rename field alone
+    if (event.target instanceof HTMLInputElement || rows.length === 0) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+    const typeahead = typeaheadRef.current;
+    const isTyping = event.timeStamp - typeahead.time < TYPEAHEAD_TIMEOUT;
+    if (event.key.length === 1 && (event.key !== ' ' || isTyping)) {
+      typeahead.text = isTyping ? typeahead.text + event.key : event.key;
+      typeahead.time = event.timeStamp;
+      // Repeating one letter cycles through its matches; longer text may still match the current row
+      const isRepeat = Array.from(typeahead.text).every(char => char === event.key);
+      const match = isRepeat
+        ? findTypeaheadMatch(rows, tabIndex, event.key)
+        : findTypeaheadMatch(rows, tabIndex - 1, typeahead.text);
+      if (match !== null) focusRow(match);
+      event.preventDefault();
+      return;
+    }
+
+    const action = getTreeKeyAction(rows, tabIndex, event.key);
+    if (!action) return;
+    event.preventDefault();
+    if (action.type === 'focus') {
+      focusRow(action.index);
+    } else if (action.type === 'toggle') {
+      onToggleExpand(action.nodeId);
+    } else {
+      onRename?.(action.nodeId);
+    }
+  };
+
+  const handleFocus = (event: React.FocusEvent) => {
+    const nodeId = (event.target as Element).closest<HTMLElement>('[data-node-id]')?.dataset.nodeId;
+    if (!nodeId || nodeId === focusedId) return;
+    setFocusedId(nodeId);
+    onFocusNode?.(nodeId);
+  };
+
+  return { focusedId: tabStopId, handleKeyDown, handleFocus };
+};
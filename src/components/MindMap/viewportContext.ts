@@ -0,0 +1,37 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Rectangle in unscaled content coordinates
+ */
+export interface ContentRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Part of the content currently on screen
+ */
+export type VisibleArea = ContentRect;
+
+/**
+ * Reports the outlines of all of a view's nodes to the minimap, for views
+ * that do not render every node; null goes back to measuring rendered nodes
+ */
+export type ReportNodeOutlines = (outlines: ContentRect[] | null) => void;
+
+export const VisibleAreaContext = createContext<VisibleArea | null>(null);
+
+export const NodeOutlinesContext = createContext<ReportNodeOutlines | null>(null);
+
+/**
+ * Visible area of the surrounding ZoomableViewport, or null outside one
+ * and while an export needs every node rendered
+ */
+export const useVisibleArea = (): VisibleArea | null => useContext(VisibleAreaContext);
+
+/**
+ * Minimap outline reporter of the surrounding ZoomableViewport, or null outside one
+ */
+export const useReportNodeOutlines = (): ReportNodeOutlines | null => useContext(NodeOutlinesContext);
@@ -0,0 +1,153 @@
+import { MindMapNode, NodeSize } from '../types/mindmap';
+import { calculateTreeLayout, TreeLayoutNode } from './treeLayout';
+
+export interface BalancedLayoutNode extends TreeLayoutNode {
+  // Index of the first-level branch the node belongs to, -1 for roots
+  branch: number;
+}
+
+export interface BalancedLayoutEdge {
+  id: string;
+  path: string;
+  branch: number;
+}
+
+export interface BalancedLayout {
+  nodes: BalancedLayoutNode[];
+  edges: BalancedLayoutEdge[];
+  bounds: { minX: number; minY: number; width: number; height: number };
+}
+
+// Vertical space between the maps of several roots
+const ROOT_GAP = 80;
+const LAYOUT_PADDING = 40;
+
+const countVisible = (node: MindMapNode): number =>
+  1 + (node.isExpanded ? node.children.reduce((sum, child) => sum + countVisible(child), 0) : 0);
+
+/**
+ * Split first-level branches into a right and a left side holding roughly
+ * the same number of visible nodes. Branches keep their order, running
+ * clockwise from the top right round to the top left.
+ */
+const splitBranches = (children: MindMapNode[]): { right: MindMapNode[]; left: MindMapNode[] } => {
+  const weights = children.map(countVisible);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let splitAt = Math.min(children.length, 1);
+  let bestDifference = Infinity;
+  let rightWeight = 0;
+  weights.forEach((weight, index) => {
+    rightWeight += weight;
+    const difference = Math.abs(total - 2 * rightWeight);
+    if (difference < bestDifference) {
+      bestDifference = difference;
+      splitAt = index + 1;
+    }
+  });
+
+  return { right: children.slice(0, splitAt), left: children.slice(splitAt).reverse() };
+};
+
+/**
+ * Outline of a curved branch that tapers from parent to child, to be
+ * filled rather than stroked
+ */
+const getTaperedBranchPath = (parent: TreeLayoutNode, child: TreeLayoutNode): string => {
+  const direction = child.x >= parent.x ? 1 : -1;
+  const startX = parent.x + direction * parent.width / 2;
+  const endX = child.x - direction * child.width / 2;
+  const midX = (startX + endX) / 2;
+  const startHalf = Math.max(1.5, 6 - parent.depth * 2);
+  const endHalf = Math.max(1, startHalf / 2);
+  const { y: startY } = parent;
+  const { y: endY } = child;
+
+  return [
+    `M ${startX} ${startY - startHalf}`,
+    `C ${midX} ${startY - startHalf}, ${midX} ${endY - endHalf}, ${endX} ${endY - endHalf}`,
+    `L ${endX} ${endY + endHalf}`,
+    `C ${midX} ${endY + endHalf}, ${midX} ${startY + startHalf}, ${startX} ${startY + startHalf}`,
+    'Z'
+  ].join(' ');
+};
+
+// Lay out one root with its branches on both sides, centred on the origin
+const layoutRoot = (root: MindMapNode, getSize: (node: MindMapNode) => NodeSize) => {
+  const { right, left } = splitBranches(root.isExpanded ? root.children : []);
+  const rootWidth = getSize(root).width;
+
+  const placed = new Map<string, TreeLayoutNode>();
+  const placeSide = (children: MindMapNode[], direction: 1 | -1) => {
+    const { nodes } = calculateTreeLayout([{ ...root, children, isExpanded: true }], getSize, 'horizontal');
+    nodes.forEach(node => {
+      if (node.id === root.id && placed.has(root.id)) return;
+      placed.set(node.id, { ...node, x: direction * (node.x - rootWidth / 2) });
+    });
+  };
+  placeSide(right, 1);
+  placeSide(left, -1);
+
+  // The root keeps its full list of children
+  placed.set(root.id, { ...(placed.get(root.id) as TreeLayoutNode), children: root.children, isExpanded: root.isExpanded });
+  return placed;
+};
+
+/**
+ * Classic mind map: each root in the centre with its first-level branches
+ * balanced between the right and left sides by size. Edges are tapered
+ * curves tagged with their branch so they can be coloured per branch.
+ * Several roots are stacked from top to bottom.
+ */
+export const calculateBalancedLayout = (
+  nodes: MindMapNode[],
+  getSize: (node: MindMapNode) => NodeSize
+): BalancedLayout => {
+  const layoutNodes: BalancedLayoutNode[] = [];
+  const edges: BalancedLayoutEdge[] = [];
+  let cursorY = 0;
+
+  nodes.forEach(root => {
+    const placed = layoutRoot(root, getSize);
+    const values = Array.from(placed.values());
+    const top = Math.min(...values.map(node => node.y - node.height / 2));
+    const bottom = Math.max(...values.map(node => node.y + node.height / 2));
+    const offsetY = cursorY - top;
+    cursorY += bottom - top + ROOT_GAP;
+
+    const visit = (node: MindMapNode, branch: number, parent?: BalancedLayoutNode) => {
+      const position = placed.get(node.id);
+      if (!position) return;
+
+      const laidOut: BalancedLayoutNode = { ...position, y: position.y + offsetY, branch };
+      layoutNodes.push(laidOut);
+      if (parent) {
+        edges.push({ id: `${parent.id}-${node.id}`, path: getTaperedBranchPath(parent, laidOut), branch });
+      }
+      if (node.isExpanded) {
+        node.children.forEach((child, index) => visit(child, parent ? branch : index, laidOut));
+      }
+    };
+    visit(root, -1);
+  });
+
+  if (layoutNodes.length === 0) {
+    return { nodes: [], edges: [], bounds: { minX: 0, minY: 0, width: 0, height: 0 } };
+  }
+
+  const minX = Math.min(...layoutNodes.map(node => node.x - node.width / 2));
+  const maxX = Math.max(...layoutNodes.map(node => node.x + node.width / 2));
+  const minY = Math.min(...layoutNodes.map(node => node.y - node.height / 2));
+  const maxY = Math.max(...layoutNodes.map(node => node.y + node.height / 2));
+
+  return {
+    nodes: layoutNodes,
+    edges,
+    bounds: {
+      minX: minX - LAYOUT_PADDING,
+      minY: minY - LAYOUT_PADDING,
+      width: maxX - minX + LAYOUT_PADDING * 2,
+      height: maxY - minY + LAYOUT_PADDING * 2
+    }
+  };
+};
@@ -0,0 +1,55 @@
+import { CameraBookmark, Vector3 } from '../types/mindmap';
+
+// How far the camera stays from a node it flies to
+export const FLY_TO_DISTANCE = 150;
+
+/**
+ * Camera position for looking at a point from outside the graph: on the
+ * line from the origin through the point, a fixed distance beyond it.
+ */
+export const getFlyToPosition = (target: Vector3, distance = FLY_TO_DISTANCE): Vector3 => {
+  const length = Math.hypot(target.x, target.y, target.z);
+  if (length < 1) {
+    return { x: target.x, y: target.y, z: target.z + distance };
+  }
+
+  const ratio = 1 + distance / length;
+  return { x: target.x * ratio, y: target.y * ratio, z: target.z * ratio };
+};
+
+const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const add = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+
+/**
+ * Create a bookmark of the current camera. When anchored to a node, the
+ * camera is stored relative to it so the view follows the node when the
+ * force layout settles somewhere else.
+ */
+export const createBookmark = (
+  name: string,
+  position: Vector3,
+  lookAt: Vector3,
+  anchor?: { nodeId: string; position: Vector3 }
+): CameraBookmark => ({
+  id: `bookmark-${Date.now()}-${Math.round(Math.random() * 1e6)}`,
+  name,
+  nodeId: anchor?.nodeId,
+  position: anchor ? subtract(position, anchor.position) : position,
+  lookAt: anchor ? subtract(lookAt, anchor.position) : lookAt
+});
+
+/**
+ * Resolve a bookmark to absolute camera coordinates. Anchored bookmarks
+ * need the anchor node's current position and return null without it.
+ */
+export const resolveBookmark = (
+  bookmark: CameraBookmark,
+  anchorPosition?: Vector3
+): { position: Vector3; lookAt: Vector3 } | null => {
+  if (!bookmark.nodeId) return { position: bookmark.position, lookAt: bookmark.lookAt };
+  if (!anchorPosition) return null;
+  return {
+    position: add(bookmark.position, anchorPosition),
+    lookAt: add(bookmark.lookAt, anchorPosition)
+  };
+};
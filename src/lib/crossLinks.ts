@@ -0,0 +1,64 @@
+import { CrossLink, CrossLinkResult, MindMapNode, UnresolvedLink } from '../types/mindmap';
+import { flattenNodes } from './parser';
+
+const WIKI_LINK_PATTERN = /\[\[([^[\]]+)\]\]/g;
+
+/**
+ * Targets of all [[wiki-links]] in a label
+ */
+export const extractLinkTargets = (label: string): string[] => {
+  return Array.from(label.matchAll(WIKI_LINK_PATTERN), match => match[1].trim()).filter(Boolean);
+};
+
+/**
+ * Label text as displayed, with [[wiki-link]] brackets removed
+ */
+export const getDisplayLabel = (label: string): string => {
+  return label.replace(WIKI_LINK_PATTERN, '$1');
+};
+
+/**
+ * Resolve [[target]] references into links between nodes.
+ * A target matches an {#anchor} first (with or without the leading #),
+ * then a node label, case-insensitively. Unmatched targets are reported.
+ */
+export const resolveCrossLinks = (nodes: MindMapNode[]): CrossLinkResult => {
+  const allNodes = flattenNodes(nodes);
+  const byAnchor = new Map<string, MindMapNode>();
+  const byLabel = new Map<string, MindMapNode>();
+
+  allNodes.forEach(node => {
+    if (node.anchor && !byAnchor.has(node.anchor.toLowerCase())) {
+      byAnchor.set(node.anchor.toLowerCase(), node);
+    }
+    const label = getDisplayLabel(node.label).toLowerCase();
+    if (!byLabel.has(label)) {
+      byLabel.set(label, node);
+    }
+  });
+
+  const links: CrossLink[] = [];
+  const unresolved: UnresolvedLink[] = [];
+  const seen = new Set<string>();
+
+  allNodes.forEach(node => {
+    extractLinkTargets(node.label).forEach(target => {
+      const key = target.toLowerCase();
+      const targetNode = key.startsWith('#')
+        ? byAnchor.get(key.slice(1))
+        : byAnchor.get(key) ?? byLabel.get(key);
+
+      if (!targetNode || targetNode.id === node.id) {
+        unresolved.push({ sourceId: node.id, target, lineNumber: node.lineNumber });
+        return;
+      }
+
+      const id = `${node.id}->${targetNode.id}`;
+      if (seen.has(id)) return;
+      seen.add(id);
+      links.push({ id, sourceId: node.id, targetId: targetNode.id });
+    });
+  });
+
+  return { links, unresolved };
+};
@@ -0,0 +1,224 @@
+import { Diagnostic, InputFormat, MindMapNode, UnresolvedLink } from '../types/mindmap';
+import {
+  detectIndentUnit,
+  detectInputFormat,
+  flattenNodes,
+  measureIndent,
+  parseTextToLines,
+  parseTextToMindMap
+} from './parser';
+import { resolveCrossLinks } from './crossLinks';
+
+const HEADING_PATTERN = /^#{1,6}\s/;
+const NOTE_PATTERN = /^>/;
+
+interface IndentStyle {
+  unit: number;
+  useTabs: boolean;
+}
+
+// Tabs win only when more lines are indented with tabs than with spaces
+const detectIndentStyle = (lines: string[]): IndentStyle => {
+  let tabLines = 0;
+  let spaceLines = 0;
+  lines.forEach(line => {
+    const { tabs, spaces } = measureIndent(line);
+    if (tabs > 0) tabLines += 1;
+    else if (spaces > 0) spaceLines += 1;
+  });
+  return { unit: detectIndentUnit(lines), useTabs: tabLines > spaceLines };
+};
+
+const makeIndent = (level: number, style: IndentStyle): string => {
+  return style.useTabs ? '\t'.repeat(level) : ' '.repeat(level * style.unit);
+};
+
+const reindent = (line: string, level: number, style: IndentStyle): string => {
+  return `${makeIndent(level, style)}${line.trimStart()}`;
+};
+
+/**
+ * Check input text for structural problems the parser would silently coerce:
+ * mixed tabs and spaces, indentation that is not a multiple of the detected
+ * unit, lines that jump several levels deeper, stray notes, duplicate anchors
+ * and unresolved [[links]].
+ */
+export const diagnoseText = (
+  text: string,
+  format: InputFormat,
+  nodes: MindMapNode[] = [],
+  unresolvedLinks: UnresolvedLink[] = []
+): Diagnostic[] => {
+  if (!text.trim()) return [];
+
+  const resolvedFormat = format === 'auto' ? detectInputFormat(text) : format;
+  const lines = text.split('\n');
+  const diagnostics: Diagnostic[] = [];
+  const canFix = resolvedFormat === 'plain';
+
+  // Mermaid uses relative indentation, so only Markdown and plain text are checked
+  if (resolvedFormat !== 'mermaid') {
+    const bodyLines = lines.filter(line => !HEADING_PATTERN.test(line.trim()));
+    const style = detectIndentStyle(bodyLines);
+
+    lines.forEach((line, index) => {
+      const lineNumber = index + 1;
+      if (!line.trim()) return;
+      const { tabs, spaces } = measureIndent(line);
+
+      if (tabs > 0 && spaces > 0) {
+        const level = tabs + Math.floor(spaces / style.unit);
+        diagnostics.push({
+          lineNumber,
+          severity: 'warning',
+          message: 'Indentation mixes tabs and spaces.',
+          fix: { label: 'Use consistent indentation', lineNumber, replacement: reindent(line, level, style) }
+        });
+      } else if (tabs > 0 && !style.useTabs) {
+        diagnostics.push({
+          lineNumber,
+          severity: 'warning',
+          message: 'Line is indented with tabs while the rest of the text uses spaces.',
+          fix: { label: 'Convert tabs to spaces', lineNumber, replacement: reindent(line, tabs, style) }
+        });
+      } else if (spaces > 0 && style.useTabs) {
+        const level = Math.round(spaces / style.unit);
+        diagnostics.push({
+          lineNumber,
+          severity: 'warning',
+          message: 'Line is indented with spaces while the rest of the text uses tabs.',
+          fix: { label: 'Convert spaces to tabs', lineNumber, replacement: reindent(line, level, style) }
+        });
+      } else if (spaces % style.unit !== 0) {
+        const level = Math.round(spaces / style.unit);
+        diagnostics.push({
+          lineNumber,
+          severity: 'warning',
+          message: `Indentation of ${spaces} spaces is not a multiple of ${style.unit}; treated as level ${Math.floor(spaces / style.unit)}.`,
+          fix: { label: `Indent to level ${level}`, lineNumber, replacement: reindent(line, level, style) }
+        });
+      }
+    });
+
+    const firstContent = lines.findIndex(line => line.trim() !== '');
+    if (firstContent >= 0 && NOTE_PATTERN.test(lines[firstContent].trim())) {
+      diagnostics.push({
+        lineNumber: firstContent + 1,
+        severity: 'warning',
+        message: 'Note has no node above it and is ignored.'
+      });
+    }
+
+    // Structure problems, judged on the levels the parser actually assigned
+    const parsedLines = parseTextToLines(text, resolvedFormat);
+    parsedLines.forEach((parsedLine, index) => {
+      const previous = parsedLines[index - 1];
+      const { lineNumber, level } = parsedLine;
+      const line = lines[lineNumber - 1];
+
+      if (!previous && level > 0) {
+        diagnostics.push({
+          lineNumber,
+          severity: 'info',
+          message: 'First line is indented; it becomes a root node.',
+          fix: canFix ? { label: 'Remove indentation', lineNumber, replacement: line.trimStart() } : undefined
+        });
+      } else if (previous && level > previous.level + 1) {
+        const jump = level - previous.level;
+        diagnostics.push({
+          lineNumber,
+          severity: 'warning',
+          message: `Line is indented ${jump} levels deeper than line ${previous.lineNumber}; it becomes a direct child of "${previous.content}".`,
+          fix: canFix
+            ? { label: `Indent to level ${previous.level + 1}`, lineNumber, replacement: reindent(line, previous.level + 1, style) }
+            : undefined
+        });
+      }
+    });
+  }
+
+  // Duplicate anchors: links always resolve to the first definition
+  const anchors = new Map<string, MindMapNode>();
+  flattenNodes(nodes).forEach(node => {
+    if (!node.anchor) return;
+    const key = node.anchor.toLowerCase();
+    const first = anchors.get(key);
+    if (!first) {
+      anchors.set(key, node);
+    } else if (node.lineNumber !== undefined) {
+      diagnostics.push({
+        lineNumber: node.lineNumber,
+        severity: 'error',
+        message: `Anchor #${node.anchor} is already defined on line ${first.lineNumber}; links resolve to the first one.`
+      });
+    }
+  });
+
+  unresolvedLinks.forEach(link => {
+    if (link.lineNumber === undefined) return;
+    diagnostics.push({
+      lineNumber: link.lineNumber,
+      severity: 'warning',
+      message: `[[${link.target}]] does not match any node label or anchor.`
+    });
+  });
+
+  return diagnostics.sort((a, b) => a.lineNumber - b.lineNumber);
+};
+
+/**
+ * Re-indent plain text so every line sits at the level the parser assigned,
+ * never more than one level below the line above. Bullets and content are kept.
+ */
+export const normalizeIndentation = (text: string, format: InputFormat): string => {
+  const resolvedFormat = format === 'auto' ? detectInputFormat(text) : format;
+  if (resolvedFormat !== 'plain') return text;
+
+  const lines = text.split('\n');
+  const style = detectIndentStyle(lines);
+  const levels = new Map<number, number>();
+  let previousLevel = -1;
+
+  parseTextToLines(text, 'plain').forEach(parsedLine => {
+    const level = Math.min(parsedLine.level, previousLevel + 1);
+    levels.set(parsedLine.lineNumber, level);
+    previousLevel = level;
+  });
+
+  // Notes and ignored lines stay attached to the node above them
+  let currentLevel = 0;
+  return lines
+    .map((line, index) => {
+      if (!line.trim()) return '';
+      const level = levels.get(index + 1);
+      if (level !== undefined) {
+        currentLevel = level;
+        return reindent(line, level, style);
+      }
+      return reindent(line, currentLevel + 1, style);
+    })
+    .join('\n');
+};
+
+/**
+ * What the editor needs from one pass over the text: the parsed nodes, the
+ * problems found in it and whether normalizeIndentation would change anything
+ */
+export interface TextAnalysis {
+  nodes: MindMapNode[];
+  diagnostics: Diagnostic[];
+  canNormalize: boolean;
+}
+
+/**
+ * Parse and check text in one go, meant to run off the main thread.
+ * Links are resolved on the parsed nodes; expansion does not change them.
+ */
+export const analyzeText = (text: string, format: InputFormat): TextAnalysis => {
+  const nodes = parseTextToMindMap(text, format);
+  return {
+    nodes,
+    diagnostics: diagnoseText(text, format, nodes, resolveCrossLinks(nodes).unresolved),
+    canNormalize: normalizeIndentation(text, format) !== text
+  };
+};
@@ -1,10 +1,33 @@
 import domtoimage from 'dom-to-image';
 import { saveAs } from 'file-saver';
-import { MindMapNode } from '../types/mindmap';
+import { ExportScope, MindMapNode } from '../types/mindmap';
+import { nodesToOPML } from './opml';
+import { nodesToFreeMind } from './freemind';
+import { nodesToMermaid } from './mermaid';
 
 interface ExportOptions {
   filename?: string;
   quality?: number;
+  scope?: ExportScope;
+  /** Background colour behind the map, white by default */
+  background?: string;
+}
+
+/**
+ * Event sent to a [data-viewport] before the whole map is captured; its
+ * boolean detail asks the views inside to render every node (true) or go
+ * back to rendering only what is on screen (false)
+ */
+export const RENDER_ALL_EVENT = 'mindmap:render-all';
+
+// Frames to wait at most for late-rendered nodes to be measured and placed
+const MAX_SETTLE_FRAMES = 20;
+
+interface ImageTarget {
+  element: HTMLElement;
+  width?: number;
+  height?: number;
+  style: Record<string, string>;
 }
 
 /**
@@ -31,6 +54,64 @@ const showErrorMessage = (message: string): void => {
   // You can replace this with a toast notification or other UI feedback
 };
 
+// Zoom controls and the minimap are never part of an image
+const isExportedNode = (node: Node): boolean =>
+  !(node instanceof HTMLElement && node.hasAttribute('data-export-ignore'));
+
+/**
+ * Pick what to capture inside a pan/zoom viewport: the area currently on
+ * screen, or the whole map at 100% with the pan and zoom removed.
+ */
+const resolveImageTarget = (element: HTMLElement, scope: ExportScope = 'full'): ImageTarget => {
+  const viewport = element.querySelector<HTMLElement>('[data-viewport]');
+  const content = viewport?.querySelector<HTMLElement>('[data-viewport-content]');
+
+  if (viewport && scope === 'visible') {
+    return { element: viewport, style: {} };
+  }
+  if (content) {
+    return {
+      element: content,
+      width: content.scrollWidth,
+      height: content.scrollHeight,
+      style: { transform: 'none', position: 'static' }
+    };
+  }
+  return { element, style: { transform: 'scale(1)', transformOrigin: 'top left' } };
+};
+
+const nextFrame = () => new Promise(resolve => requestAnimationFrame(resolve));
+
+/**
+ * Capture an image of the map. For the whole map, views that only render
+ * the nodes on screen render all of them first; the capture waits until
+ * the content stops changing size and skips any running node animations.
+ */
+const captureImage = async (
+  element: HTMLElement,
+  scope: ExportScope = 'full',
+  capture: (target: ImageTarget) => Promise<string>
+): Promise<string> => {
+  const viewport = scope === 'full' ? element.querySelector<HTMLElement>('[data-viewport]') : null;
+  const content = viewport?.querySelector<HTMLElement>('[data-viewport-content]');
+  if (!viewport || !content) return capture(resolveImageTarget(element, scope));
+
+  viewport.dispatchEvent(new CustomEvent(RENDER_ALL_EVENT, { detail: true }));
+  try {
+    let size = '';
+    for (let frame = 0; frame < MAX_SETTLE_FRAMES; frame++) {
+      await nextFrame();
+      const nextSize = `${content.scrollWidth}x${content.scrollHeight}`;
+      if (nextSize === size) break;
+      size = nextSize;
+    }
+    content.getAnimations({ subtree: true }).forEach(animation => animation.finish());
+    return await capture(resolveImageTarget(element, scope));
+  } finally {
+    viewport.dispatchEvent(new CustomEvent(RENDER_ALL_EVENT, { detail: false }));
+  }
+};
+
 /**
  * Export DOM element as PNG image
  */
@@ -42,14 +123,14 @@ export const exportToPNG = async (
     const filename = options.filename || generateFilename('mindmap', 'png');
     const quality = options.quality || 1.0;
     
-    const dataUrl = await domtoimage.toPng(element, {
+    const dataUrl = await captureImage(element, options.scope, target => domtoimage.toPng(target.element, {
       quality,
-      bgcolor: '#ffffff',
-      style: {
-        transform: 'scale(1)',
-        transformOrigin: 'top left'
-      }
-    });
+      bgcolor: options.background ?? '#ffffff',
+      width: target.width,
+      height: target.height,
+      style: target.style,
+      filter: isExportedNode
+    }));
     
     const response = await fetch(dataUrl);
     const blob = await response.blob();
@@ -71,13 +152,13 @@ export const exportToSVG = async (
   try {
     const filename = options.filename || generateFilename('mindmap', 'svg');
     
-    const dataUrl = await domtoimage.toSvg(element, {
-      bgcolor: '#ffffff',
-      style: {
-        transform: 'scale(1)',
-        transformOrigin: 'top left'
-      }
-    });
+    const dataUrl = await captureImage(element, options.scope, target => domtoimage.toSvg(target.element, {
+      bgcolor: options.background ?? '#ffffff',
+      width: target.width,
+      height: target.height,
+      style: target.style,
+      filter: isExportedNode
+    }));
     
     const response = await fetch(dataUrl);
     const blob = await response.blob();
@@ -99,8 +180,17 @@ export const export3DToPNG = async (
   try {
     const filename = options.filename || generateFilename('mindmap-3d', 'png');
     
-    // Get the canvas from the Three.js renderer
-    const canvas = renderer.domElement;
+    // Get the canvas from the Three.js renderer, which is transparent,
+    // and paint it over the background
+    const source: HTMLCanvasElement = renderer.domElement;
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context is not available');
+    context.fillStyle = options.background ?? '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(source, 0, 0);
     
     // Convert canvas to blob
     canvas.toBlob((blob: Blob | null) => {
@@ -142,4 +232,75 @@ export const exportToJSON = (
     console.error('JSON export failed:', error);
     showErrorMessage('Failed to export JSON. Please try again.');
   }
+};
+
+/**
+ * Export mind map as an OPML 2.0 outline
+ */
+export const exportToOPML = (
+  nodes: MindMapNode[],
+  options: ExportOptions = {}
+): void => {
+  try {
+    const filename = options.filename || generateFilename('mindmap', 'opml');
+    const title = nodes.length === 1 ? nodes[0].label : 'Mind Map';
+    
+    const dataBlob = new Blob([nodesToOPML(nodes, title)], { type: 'text/x-opml' });
+    saveAs(dataBlob, filename);
+    showSuccessMessage(`OPML exported as ${filename}`);
+  } catch (error) {
+    console.error('OPML export failed:', error);
+    showErrorMessage('Failed to export OPML. Please try again.');
+  }
+};
+
+/**
+ * Export mind map as a FreeMind / Freeplane (.mm) file
+ */
+export const exportToFreeMind = (
+  nodes: MindMapNode[],
+  options: ExportOptions = {}
+): void => {
+  try {
+    const filename = options.filename || generateFilename('mindmap', 'mm');
+    
+    const dataBlob = new Blob([nodesToFreeMind(nodes)], { type: 'application/x-freemind' });
+    saveAs(dataBlob, filename);
+    showSuccessMessage(`FreeMind map exported as ${filename}`);
+  } catch (error) {
+    console.error('FreeMind export failed:', error);
+    showErrorMessage('Failed to export FreeMind map. Please try again.');
+  }
+};
+
+/**
+ * Export mind map as a Mermaid mindmap definition (.mmd)
+ */
+export const exportToMermaid = (
+  nodes: MindMapNode[],
+  options: ExportOptions = {}
+): void => {
+  try {
+    const filename = options.filename || generateFilename('mindmap', 'mmd');
+    
+    const dataBlob = new Blob([nodesToMermaid(nodes)], { type: 'text/plain' });
+    saveAs(dataBlob, filename);
+    showSuccessMessage(`Mermaid exported as ${filename}`);
+  } catch (error) {
+    console.error('Mermaid export failed:', error);
+    showErrorMessage('Failed to export Mermaid. Please try again.');
+  }
+};
+
+/**
+ * Copy mind map to the clipboard as a fenced Mermaid block, ready to paste into Markdown docs
+ */
+export const copyMermaidToClipboard = async (nodes: MindMapNode[]): Promise<void> => {
+  try {
+    await navigator.clipboard.writeText(`\`\`\`mermaid\n${nodesToMermaid(nodes)}\n\`\`\``);
+    showSuccessMessage('Mermaid block copied to clipboard');
+  } catch (error) {
+    console.error('Mermaid copy failed:', error);
+    showErrorMessage('Failed to copy Mermaid. Please try again.');
+  }
 };
\ No newline at end of file
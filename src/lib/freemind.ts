@@ -0,0 +1,161 @@
+import { MindMapNode } from '../types/mindmap';
+import { generateNodeId } from './parser';
+import { formatNodeMetadata, parseEscapedMetadata } from './metadata';
+import { getSafeLink } from './links';
+import { childElements, escapeXml, parseXml } from './xmlUtils';
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+// Built-in FreeMind icon that marks a node as important
+const IMPORTANT_ICON = 'messagebox_warning';
+const BLOCK_SELECTOR = 'p, div, li, br, h1, h2, h3, h4, h5, h6';
+
+/**
+ * Flatten a FreeMind rich-content HTML fragment to plain text,
+ * keeping one line per paragraph.
+ */
+const richContentToText = (element: Element): string => {
+  const html = element.querySelector('html') ?? element;
+  const body = (html.querySelector('body') ?? html).cloneNode(true) as Element;
+
+  body.querySelectorAll(BLOCK_SELECTOR).forEach(block => {
+    block.appendChild(body.ownerDocument.createTextNode('\n'));
+  });
+
+  return (body.textContent ?? '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+const getRichContent = (element: Element, type: string): string | undefined => {
+  const richContent = childElements(element, 'richcontent')
+    .find(child => child.getAttribute('TYPE') === type);
+  if (!richContent) return undefined;
+
+  const text = richContentToText(richContent);
+  return text || undefined;
+};
+
+const noteToHtml = (note: string): string => {
+  const paragraphs = note.split('\n').map(line => `<p>${escapeXml(line)}</p>`).join('');
+  return `<richcontent TYPE="NOTE"><html><head></head><body>${paragraphs}</body></html></richcontent>`;
+};
+
+/**
+ * Convert mind map nodes to a FreeMind 1.0 (.mm) document.
+ * FreeMind maps have a single root, so several roots are wrapped in one.
+ */
+export const nodesToFreeMind = (nodes: MindMapNode[], title = 'Mind Map'): string => {
+  const lines: string[] = [
+    '<map version="1.0.1">',
+    '<!-- To view this file, download free mind mapping software FreeMind from http://freemind.sourceforge.net -->'
+  ];
+  let idCounter = 0;
+
+  const writeNode = (node: MindMapNode, isRoot: boolean, position?: 'left' | 'right') => {
+    idCounter += 1;
+    const attributes = [`TEXT="${escapeXml(formatNodeMetadata(node.label, node))}"`, `ID="ID_${idCounter}"`];
+
+    if (position) attributes.push(`POSITION="${position}"`);
+    if (!node.isExpanded && node.children.length > 0) attributes.push('FOLDED="true"');
+    if (node.color && HEX_COLOR_PATTERN.test(node.color)) attributes.push(`COLOR="${node.color}"`);
+    if (node.background && HEX_COLOR_PATTERN.test(node.background)) {
+      attributes.push(`BACKGROUND_COLOR="${node.background}"`);
+    }
+    if (node.link) attributes.push(`LINK="${escapeXml(node.link)}"`);
+    // FreeMind draws a fork as underlined text; other shapes are bubbles
+    if (node.shape) attributes.push(`STYLE="${node.shape === 'underline' ? 'fork' : 'bubble'}"`);
+
+    const details: string[] = [];
+    if (node.bold || node.italic) {
+      details.push(`<font NAME="SansSerif" SIZE="12"${node.bold ? ' BOLD="true"' : ''}${node.italic ? ' ITALIC="true"' : ''}/>`);
+    }
+    if (node.important) details.push(`<icon BUILTIN="${IMPORTANT_ICON}"/>`);
+
+    const openTag = `<node ${attributes.join(' ')}`;
+    if (node.children.length === 0 && !node.note && details.length === 0) {
+      lines.push(`${openTag}/>`);
+      return;
+    }
+
+    lines.push(`${openTag}>`);
+    lines.push(...details);
+    if (node.note) {
+      lines.push(noteToHtml(node.note));
+    }
+    // Split first-level branches between the two sides of the root
+    node.children.forEach((child, index) => {
+      writeNode(child, false, isRoot ? (index % 2 === 0 ? 'right' : 'left') : undefined);
+    });
+    lines.push('</node>');
+  };
+
+  const root: MindMapNode = nodes.length === 1
+    ? nodes[0]
+    : { id: 'freemind-root', label: title, level: 0, children: nodes, isExpanded: true };
+  writeNode(root, true);
+
+  lines.push('</map>');
+  return lines.join('\n');
+};
+
+/**
+ * Parse a FreeMind / Freeplane (.mm) document into mind map nodes.
+ * Throws if the document is not a FreeMind map.
+ */
+export const parseFreeMind = (xml: string): MindMapNode[] => {
+  const doc = parseXml(xml);
+
+  const map = doc.documentElement;
+  if (map.tagName !== 'map') {
+    throw new Error('The file is not a FreeMind map (missing <map>).');
+  }
+
+  const buildNode = (element: Element, level: number, parent?: MindMapNode): MindMapNode => {
+    const text = element.getAttribute('TEXT') ?? getRichContent(element, 'NODE') ?? '';
+    // Text holds the label with its inline metadata, as nodesToFreeMind writes it
+    const { label, metadata } = parseEscapedMetadata(text.replace(/\s+/g, ' ').trim());
+
+    const node: MindMapNode = {
+      id: generateNodeId(),
+      label: label || 'Untitled',
+      level,
+      children: [],
+      parent,
+      isExpanded: element.getAttribute('FOLDED') !== 'true',
+      ...metadata
+    };
+
+    const color = element.getAttribute('COLOR');
+    const background = element.getAttribute('BACKGROUND_COLOR');
+    const link = getSafeLink(element.getAttribute('LINK') ?? undefined);
+    const note = getRichContent(element, 'NOTE');
+
+    if (color) node.color = color;
+    if (background) node.background = background;
+    if (link) node.link = link;
+    if (note) node.note = note;
+
+    const style = element.getAttribute('STYLE');
+    if (style === 'fork') node.shape = 'underline';
+    else if (style === 'bubble') node.shape = 'rounded';
+
+    const font = childElements(element, 'font')[0];
+    if (font?.getAttribute('BOLD') === 'true') node.bold = true;
+    if (font?.getAttribute('ITALIC') === 'true') node.italic = true;
+    if (childElements(element, 'icon').some(icon => icon.getAttribute('BUILTIN') === IMPORTANT_ICON)) {
+      node.important = true;
+    }
+
+    node.children = childElements(element, 'node').map(child => buildNode(child, level + 1, node));
+    return node;
+  };
+
+  const nodes = childElements(map, 'node').map(element => buildNode(element, 0));
+  if (nodes.length === 0) {
+    throw new Error('The FreeMind map is empty.');
+  }
+
+  return nodes;
+};
@@ -0,0 +1,61 @@
+import { MindMapNode } from '../types/mindmap';
+import { getCollapsedPaths, mindMapToText } from './parser';
+import { parseOPML } from './opml';
+import { parseFreeMind } from './freemind';
+import { parseMindMapJSON } from './mindmapJson';
+
+export interface ImportedMindMap {
+  text: string;
+  collapsedPaths: string[];
+}
+
+/**
+ * File extensions accepted by the import file picker
+ */
+export const IMPORT_ACCEPT = '.json,.opml,.xml,.mm';
+
+/**
+ * Read a File as UTF-8 text
+ */
+const readFileAsText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}.`));
+    reader.readAsText(file);
+  });
+};
+
+const getExtension = (filename: string): string => {
+  const dotIndex = filename.lastIndexOf('.');
+  return dotIndex >= 0 ? filename.slice(dotIndex + 1).toLowerCase() : '';
+};
+
+/**
+ * Convert an imported node tree into editor text plus the expansion
+ * state to restore once the text has been parsed again
+ */
+export const toImportedMindMap = (nodes: MindMapNode[]): ImportedMindMap => ({
+  text: mindMapToText(nodes),
+  collapsedPaths: getCollapsedPaths(nodes)
+});
+
+/**
+ * Import a mind map file, dispatching on its extension.
+ * Throws with a user-facing message if the file cannot be imported.
+ */
+export const importMindMapFile = async (file: File): Promise<ImportedMindMap> => {
+  const content = await readFileAsText(file);
+  
+  switch (getExtension(file.name)) {
+    case 'json':
+      return toImportedMindMap(parseMindMapJSON(content));
+    case 'opml':
+    case 'xml':
+      return toImportedMindMap(parseOPML(content));
+    case 'mm':
+      return toImportedMindMap(parseFreeMind(content));
+    default:
+      throw new Error(`Unsupported file type: ${file.name}`);
+  }
+};
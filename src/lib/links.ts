@@ -0,0 +1,16 @@
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * A node link that is safe to open: web and mail addresses, or #anchors
+ * within the page. Anything else, such as javascript: URLs, gives undefined.
+ */
+export const getSafeLink = (link: string | undefined): string | undefined => {
+  const trimmed = link?.trim();
+  if (!trimmed) return undefined;
+  if (/^#[^\s#]+$/.test(trimmed)) return trimmed;
+  try {
+    return SAFE_LINK_PROTOCOLS.includes(new URL(trimmed).protocol) ? trimmed : undefined;
+  } catch {
+    return undefined;
+  }
+};
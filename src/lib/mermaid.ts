@@ -0,0 +1,171 @@
+import { MindMapNode, ParsedLine } from '../types/mindmap';
+
+const FENCE_PATTERN = /^(```|~~~)/;
+const MINDMAP_HEADER = 'mindmap';
+
+// Shape delimiters in the order they must be tried (longest first)
+const SHAPES: { open: string; close: string }[] = [
+  { open: '((', close: '))' },
+  { open: '))', close: '((' },
+  { open: '{{', close: '}}' },
+  { open: '(', close: ')' },
+  { open: ')', close: '(' },
+  { open: '[', close: ']' }
+];
+
+// Plain Mermaid node text must not contain shape delimiters or quotes
+const PLAIN_LABEL_PATTERN = /^[^()[\]{}"`%:#]+$/;
+
+/**
+ * Return the lines of a Mermaid mindmap without a surrounding code fence,
+ * or null if the text is not a Mermaid mindmap.
+ */
+const getMindmapLines = (text: string): string[] | null => {
+  const lines = text.split('\n');
+  let start = lines.findIndex(line => line.trim() !== '');
+  if (start < 0) return null;
+
+  if (/^(```|~~~)\s*mermaid\s*$/.test(lines[start].trim())) {
+    start = lines.findIndex((line, index) => index > start && line.trim() !== '');
+    if (start < 0) return null;
+  }
+
+  if (lines[start].trim() !== MINDMAP_HEADER) return null;
+
+  // Blank out everything up to the header so line numbers stay aligned
+  return lines.map((line, index) => (index <= start || FENCE_PATTERN.test(line.trim()) ? '' : line));
+};
+
+/**
+ * Check whether text is a (possibly fenced) Mermaid mindmap block
+ */
+export const isMermaidMindmap = (text: string): boolean => getMindmapLines(text) !== null;
+
+const decodeMermaidText = (text: string): string => {
+  return text
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_match, code: string) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const unquoteLabel = (label: string): string => {
+  const trimmed = label.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    const inner = trimmed.slice(1, -1).trim();
+    // Markdown strings are wrapped in backticks inside the quotes
+    return inner.startsWith('`') && inner.endsWith('`') ? inner.slice(1, -1) : inner;
+  }
+  return trimmed;
+};
+
+/**
+ * Extract the display text from a Mermaid node definition like
+ * `id((Label))`, `id["Label"]` or plain `Label`.
+ */
+const parseNodeText = (definition: string): string => {
+  const withoutClasses = definition.replace(/\s*:::.*$/, '');
+
+  for (const shape of SHAPES) {
+    const openIndex = withoutClasses.indexOf(shape.open);
+    if (openIndex < 0 || !withoutClasses.endsWith(shape.close)) continue;
+
+    const inner = withoutClasses.slice(openIndex + shape.open.length, -shape.close.length);
+    if (inner.trim()) {
+      return decodeMermaidText(unquoteLabel(inner));
+    }
+  }
+
+  return decodeMermaidText(withoutClasses);
+};
+
+/**
+ * Parse a Mermaid mindmap block into parsed lines.
+ * Levels follow relative indentation, as Mermaid itself does.
+ */
+export const parseMermaidToLines = (text: string): ParsedLine[] => {
+  const lines = getMindmapLines(text);
+  if (!lines) return [];
+
+  const parsedLines: ParsedLine[] = [];
+  const indentStack: number[] = [];
+
+  lines.forEach((line, index) => {
+    const trimmedLine = line.trim();
+    if (!trimmedLine || trimmedLine.startsWith('%%')) return;
+    // Icons and classes decorate the previous node
+    if (trimmedLine.startsWith('::icon(') || trimmedLine.startsWith(':::')) return;
+
+    const indent = line.length - line.trimStart().length;
+    while (indentStack.length > 0 && indentStack[indentStack.length - 1] >= indent) {
+      indentStack.pop();
+    }
+
+    const content = parseNodeText(trimmedLine);
+    if (content) {
+      parsedLines.push({
+        content,
+        level: indentStack.length,
+        lineNumber: index + 1
+      });
+      indentStack.push(indent);
+    }
+  });
+
+  return parsedLines;
+};
+
+const escapeMermaidText = (text: string): string => {
+  return text.replace(/"/g, '#quot;');
+};
+
+/**
+ * Format a label as Mermaid node text. When an existing definition is
+ * given, its id, shape and classes are kept and only the text is replaced.
+ */
+export const formatMermaidNode = (label: string, definition = ''): string => {
+  const text = label.trim();
+  const classes = definition.match(/\s*:::.*$/)?.[0] ?? '';
+  const shaped = definition.slice(0, definition.length - classes.length);
+
+  for (const shape of SHAPES) {
+    const openIndex = shaped.indexOf(shape.open);
+    if (openIndex < 0 || !shaped.endsWith(shape.close)) continue;
+    return `${shaped.slice(0, openIndex)}${shape.open}"${escapeMermaidText(text)}"${shape.close}${classes}`;
+  }
+
+  return PLAIN_LABEL_PATTERN.test(text) ? text : `["${escapeMermaidText(text)}"]`;
+};
+
+/**
+ * Convert mind map nodes to a Mermaid mindmap block.
+ * Mermaid needs a single root, so several roots are wrapped in one.
+ */
+export const nodesToMermaid = (nodes: MindMapNode[], title = 'Mind Map'): string => {
+  const lines: string[] = [MINDMAP_HEADER];
+  let idCounter = 0;
+
+  const writeNode = (node: MindMapNode, depth: number) => {
+    idCounter += 1;
+    const indent = '  '.repeat(depth);
+    const label = node.label.trim();
+
+    if (depth === 1) {
+      lines.push(`${indent}root(("${escapeMermaidText(label)}"))`);
+    } else if (PLAIN_LABEL_PATTERN.test(label)) {
+      lines.push(`${indent}${label}`);
+    } else {
+      lines.push(`${indent}n${idCounter}["${escapeMermaidText(label)}"]`);
+    }
+
+    node.children.forEach(child => writeNode(child, depth + 1));
+  };
+
+  const root: MindMapNode = nodes.length === 1
+    ? nodes[0]
+    : { id: 'mermaid-root', label: title, level: 0, children: nodes, isExpanded: true };
+  writeNode(root, 1);
+
+  return lines.join('\n');
+};
@@ -0,0 +1,192 @@
+import { MindMapNode, NodeDetails, Priority } from '../types/mindmap';
+
+type NodeMetadata = Pick<NodeDetails, 'icon' | 'tags' | 'priority' | 'properties'>;
+
+// A leading emoji (including ZWJ sequences and variation selectors) is the node icon
+const ICON_PATTERN = /^(\p{Extended_Pictographic}(?:\uFE0F|\u200D\p{Extended_Pictographic})*\uFE0F?)\s*/u;
+// Tags must contain a letter so "Issue #42" stays part of the label
+const TAG_PATTERN = /(^|\s)#([\p{L}\p{N}_/-]*\p{L}[\p{L}\p{N}_/-]*)(?=\s|$)/gu;
+const PRIORITY_PATTERN = /(^|\s)!([1-3])(?=\s|$)/;
+// Everything from the first "key::" onwards is properties
+const PROPERTIES_START_PATTERN = /(^|\s)[\w-]+::(\s|$)/;
+const PROPERTY_PATTERN = /([\w-]+)::\s*(.*?)(?=\s+[\w-]+::|$)/g;
+
+// A backslash keeps the next character literal; letters, digits and spaces never need it
+const ESCAPE_PATTERN = /\\([^\p{L}\p{N}\s])/gu;
+// Stands before an escaped character while a line is parsed, so no syntax matches it
+const ESCAPE_MARK = '\uE000';
+// Characters a line's content must not start with: bullets, tree lines, headings and notes
+const LEADING_SYNTAX_PATTERN = /^[•·▪▫‣⁃\-*+│├└#>]/;
+
+/**
+ * Mark the backslash-escaped characters of a line before it is parsed
+ */
+export const markEscapes = (line: string): string => line.replace(ESCAPE_PATTERN, `${ESCAPE_MARK}$1`);
+
+/**
+ * Turn marked characters back into plain text in everything parsed from a line
+ */
+export const removeEscapeMarks = <T>(value: T): T => {
+  if (typeof value === 'string') return value.split(ESCAPE_MARK).join('') as T;
+  if (Array.isArray(value)) return value.map(removeEscapeMarks) as T;
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [removeEscapeMarks(key), removeEscapeMarks(item)])
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Double the backslashes that would otherwise escape the character after them
+ */
+export const escapeBackslashes = (text: string): string => text.replace(/\\(?=[^\p{L}\p{N}\s])/gu, '\\\\');
+
+/**
+ * Escape whatever in a label the parser would otherwise read as syntax:
+ * #tags, !priority, key:: properties, a trailing {block} and, at the start
+ * of a line, bullets, numbering, headings, notes and an emoji icon
+ */
+export const escapeLabel = (label: string, isLineStart = true): string => {
+  const escaped = escapeBackslashes(label)
+    .replace(TAG_PATTERN, '$1\\#$2')
+    .replace(/(^|\s)!([1-3])(?=\s|$)/g, '$1\\!$2')
+    .replace(/(^|\s)([\w-]+):(?=:(\s|$))/g, '$1$2\\:')
+    .replace(/\}$/, '\\}');
+
+  if (!isLineStart) return escaped;
+  if (LEADING_SYNTAX_PATTERN.test(escaped) || ICON_PATTERN.test(escaped)) return `\\${escaped}`;
+  return escaped.replace(/^(\d+)([.)])/, '$1\\$2');
+};
+
+/**
+ * Extract inline metadata from a node's content:
+ * a leading emoji icon, #tags, !1-!3 priority and trailing key:: value properties.
+ */
+export const parseNodeMetadata = (content: string): { label: string; metadata: NodeMetadata } => {
+  const metadata: NodeMetadata = {};
+  let label = content;
+
+  const propertiesStart = label.search(PROPERTIES_START_PATTERN);
+  if (propertiesStart >= 0) {
+    const properties: Record<string, string> = {};
+    label.slice(propertiesStart).trim().replace(PROPERTY_PATTERN, (_match, key: string, value: string) => {
+      properties[key] = value.trim();
+      return '';
+    });
+    metadata.properties = properties;
+    label = label.slice(0, propertiesStart);
+  }
+
+  const icon = label.match(ICON_PATTERN);
+  if (icon) {
+    metadata.icon = icon[1];
+    label = label.slice(icon[0].length);
+  }
+
+  const tags: string[] = [];
+  label = label.replace(TAG_PATTERN, (_match, leading: string, tag: string) => {
+    tags.push(tag);
+    return leading;
+  });
+  if (tags.length > 0) {
+    metadata.tags = tags;
+  }
+
+  const priority = label.match(PRIORITY_PATTERN);
+  if (priority) {
+    metadata.priority = Number(priority[2]) as Priority;
+    label = label.replace(PRIORITY_PATTERN, '$1');
+  }
+
+  label = label.replace(/\s+/g, ' ').trim();
+
+  // A line holding nothing but metadata keeps its text as the label
+  return { label: label || content.trim(), metadata: label ? metadata : {} };
+};
+
+/**
+ * Parse text written by formatNodeMetadata, such as an exported OPML or
+ * FreeMind node's text, keeping escaped characters literal
+ */
+export const parseEscapedMetadata = (text: string): { label: string; metadata: NodeMetadata } =>
+  removeEscapeMarks(parseNodeMetadata(markEscapes(text)));
+
+/**
+ * Format a label and its metadata back into inline syntax, escaping the
+ * label so it parses back unchanged
+ */
+export const formatNodeMetadata = (label: string, metadata: NodeMetadata): string => {
+  const parts: string[] = [];
+
+  if (metadata.icon) parts.push(metadata.icon);
+  parts.push(escapeLabel(label, !metadata.icon));
+  metadata.tags?.forEach(tag => parts.push(`#${tag}`));
+  if (metadata.priority) parts.push(`!${metadata.priority}`);
+  Object.entries(metadata.properties ?? {}).forEach(([key, value]) => {
+    parts.push(`${key}:: ${value}`.trimEnd());
+  });
+
+  return parts.join(' ');
+};
+
+/**
+ * Metadata filters embedded in a search query
+ */
+export interface MetadataQuery {
+  text: string;
+  tags: string[];
+  priority?: Priority;
+  properties: Record<string, string>;
+}
+
+/**
+ * Split a search query into #tag, !priority and key::value filters plus free text
+ */
+export const parseMetadataQuery = (query: string): MetadataQuery => {
+  const result: MetadataQuery = { text: '', tags: [], properties: {} };
+  const textTerms: string[] = [];
+
+  query.trim().split(/\s+/).forEach(term => {
+    const property = term.match(/^([\w-]+)::(.*)$/);
+    if (term.length > 1 && term.startsWith('#')) {
+      result.tags.push(term.slice(1).toLowerCase());
+    } else if (/^![1-3]$/.test(term)) {
+      result.priority = Number(term[1]) as Priority;
+    } else if (property) {
+      result.properties[property[1].toLowerCase()] = property[2].toLowerCase();
+    } else if (term) {
+      textTerms.push(term);
+    }
+  });
+
+  result.text = textTerms.join(' ');
+  return result;
+};
+
+/**
+ * Check whether a node's metadata satisfies the filters of a query
+ */
+export const matchesMetadataQuery = (details: NodeDetails, query: MetadataQuery): boolean => {
+  const nodeTags = (details.tags ?? []).map(tag => tag.toLowerCase());
+  if (!query.tags.every(tag => nodeTags.includes(tag))) return false;
+
+  if (query.priority && details.priority !== query.priority) return false;
+
+  const properties = Object.fromEntries(
+    Object.entries(details.properties ?? {}).map(([key, value]) => [key.toLowerCase(), value.toLowerCase()])
+  );
+  return Object.entries(query.properties).every(([key, value]) =>
+    key in properties && properties[key].includes(value)
+  );
+};
+
+/**
+ * Tooltip text for a node: its note followed by its properties
+ */
+export const getNodeTooltip = (node: MindMapNode): string | undefined => {
+  const parts: string[] = [];
+  if (node.note) parts.push(node.note);
+  Object.entries(node.properties ?? {}).forEach(([key, value]) => parts.push(`${key}: ${value}`));
+  return parts.length > 0 ? parts.join('\n') : undefined;
+};
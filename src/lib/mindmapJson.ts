@@ -0,0 +1,110 @@
+import { MindMapNode, Priority } from '../types/mindmap';
+import { generateNodeId } from './parser';
+import { isNodeShape } from './nodeStyle';
+import { getSafeLink } from './links';
+
+const STRING_DETAIL_KEYS = ['note', 'color', 'background', 'link', 'anchor', 'icon', 'iconName'] as const;
+const FLAG_DETAIL_KEYS = ['bold', 'italic', 'important'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate one exported node and rebuild it with fresh ids.
+ * Throws with the JSON path of the first invalid node.
+ */
+const readNode = (value: unknown, path: string, level: number, parent?: MindMapNode): MindMapNode => {
+  if (!isRecord(value)) {
+    throw new Error(`${path} is not a node object.`);
+  }
+  if (typeof value.label !== 'string' || !value.label.trim()) {
+    throw new Error(`${path} is missing a text "label".`);
+  }
+  if (value.children !== undefined && !Array.isArray(value.children)) {
+    throw new Error(`${path}.children must be an array.`);
+  }
+  if (value.isExpanded !== undefined && typeof value.isExpanded !== 'boolean') {
+    throw new Error(`${path}.isExpanded must be true or false.`);
+  }
+
+  const node: MindMapNode = {
+    id: generateNodeId(),
+    label: value.label.replace(/\s+/g, ' ').trim(),
+    level,
+    children: [],
+    parent,
+    isExpanded: value.isExpanded ?? true
+  };
+
+  STRING_DETAIL_KEYS.forEach(key => {
+    const detail = value[key];
+    if (detail === undefined) return;
+    if (typeof detail !== 'string') {
+      throw new Error(`${path}.${key} must be a string.`);
+    }
+    node[key] = detail;
+  });
+  // Links that aren't safe to open are dropped
+  if (node.link !== undefined) node.link = getSafeLink(node.link);
+
+  FLAG_DETAIL_KEYS.forEach(key => {
+    const flag = value[key];
+    if (flag === undefined) return;
+    if (typeof flag !== 'boolean') {
+      throw new Error(`${path}.${key} must be true or false.`);
+    }
+    node[key] = flag;
+  });
+  if (value.shape !== undefined) {
+    if (typeof value.shape !== 'string' || !isNodeShape(value.shape)) {
+      throw new Error(`${path}.shape must be rounded, pill, ellipse or underline.`);
+    }
+    node.shape = value.shape;
+  }
+
+  if (value.tags !== undefined) {
+    if (!Array.isArray(value.tags) || !value.tags.every(tag => typeof tag === 'string')) {
+      throw new Error(`${path}.tags must be an array of strings.`);
+    }
+    node.tags = value.tags;
+  }
+  if (value.priority !== undefined) {
+    if (value.priority !== 1 && value.priority !== 2 && value.priority !== 3) {
+      throw new Error(`${path}.priority must be 1, 2 or 3.`);
+    }
+    node.priority = value.priority as Priority;
+  }
+  if (value.properties !== undefined) {
+    if (!isRecord(value.properties) || !Object.values(value.properties).every(v => typeof v === 'string')) {
+      throw new Error(`${path}.properties must map names to strings.`);
+    }
+    node.properties = value.properties as Record<string, string>;
+  }
+
+  const children = (value.children as unknown[] | undefined) ?? [];
+  node.children = children.map((child, index) =>
+    readNode(child, `${path}.children[${index}]`, level + 1, node)
+  );
+
+  return node;
+};
+
+/**
+ * Parse a mind map previously written by exportToJSON.
+ * Accepts the exported node array or a single root node.
+ */
+export const parseMindMapJSON = (json: string): MindMapNode[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const roots = Array.isArray(data) ? data : [data];
+  if (roots.length === 0) {
+    throw new Error('The JSON file contains no nodes.');
+  }
+
+  return roots.map((root, index) => readNode(root, `nodes[${index}]`, 0));
+};
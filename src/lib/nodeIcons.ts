@@ -0,0 +1,49 @@
+import {
+  AlertTriangle,
+  Bookmark,
+  Calendar,
+  CheckCircle,
+  Clock,
+  FileText,
+  Flag,
+  Heart,
+  HelpCircle,
+  Info,
+  Lightbulb,
+  Lock,
+  LucideIcon,
+  MessageCircle,
+  Rocket,
+  Star,
+  Target,
+  Trophy,
+  User,
+  Users,
+  Zap
+} from 'lucide-react';
+
+/**
+ * Icons a node can carry, by the name used in the attribute block
+ */
+export const NODE_ICONS: Record<string, LucideIcon> = {
+  star: Star,
+  flag: Flag,
+  heart: Heart,
+  'check-circle': CheckCircle,
+  'alert-triangle': AlertTriangle,
+  lightbulb: Lightbulb,
+  bookmark: Bookmark,
+  clock: Clock,
+  calendar: Calendar,
+  target: Target,
+  zap: Zap,
+  rocket: Rocket,
+  trophy: Trophy,
+  user: User,
+  users: Users,
+  'file-text': FileText,
+  'message-circle': MessageCircle,
+  lock: Lock,
+  info: Info,
+  'help-circle': HelpCircle
+};
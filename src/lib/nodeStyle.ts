@@ -0,0 +1,70 @@
+import type { CSSProperties } from 'react';
+import { NodeShape, NodeStyle } from '../types/mindmap';
+
+export const NODE_SHAPES: { value: NodeShape; label: string }[] = [
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'pill', label: 'Pill' },
+  { value: 'ellipse', label: 'Ellipse' },
+  { value: 'underline', label: 'Underline' }
+];
+
+export const IMPORTANT_COLOR = '#ef4444';
+
+const STYLE_KEYS = ['color', 'background', 'shape', 'bold', 'italic', 'iconName', 'important'] as const;
+
+export const isNodeShape = (value: string): value is NodeShape =>
+  NODE_SHAPES.some(shape => shape.value === value);
+
+/**
+ * The style fields set on a node, without its other details
+ */
+export const getNodeStyle = (node: NodeStyle): NodeStyle => {
+  const style: NodeStyle = {};
+  STYLE_KEYS.forEach(key => {
+    if (node[key] !== undefined) Object.assign(style, { [key]: node[key] });
+  });
+  return style;
+};
+
+/**
+ * Inline styles for a node's own shape, spread over a view's default card.
+ * Underlined nodes drop their fill and draw it as the underline instead.
+ */
+export const getShapeStyle = (node: NodeStyle, fill: string | undefined, textColor: string): CSSProperties => {
+  switch (node.shape) {
+    case 'rounded':
+      return { borderRadius: '0.5rem' };
+    case 'pill':
+      return { borderRadius: '9999px' };
+    case 'ellipse':
+      return { borderRadius: '50%', padding: '0.75rem 1.5rem' };
+    case 'underline':
+      return {
+        borderRadius: 0,
+        backgroundColor: 'transparent',
+        color: node.color ?? textColor,
+        borderStyle: 'solid',
+        borderWidth: '0 0 2px 0',
+        borderColor: fill ?? textColor
+      };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Classes that go with a node's style: no drop shadow under an underline,
+ * and an outline around important nodes
+ */
+export const getNodeStyleClass = (node: NodeStyle): string => [
+  node.shape === 'underline' ? 'shadow-none' : '',
+  node.important ? 'outline outline-2 outline-offset-4 outline-red-500' : ''
+].join(' ');
+
+/**
+ * Font weight and style of a node's label
+ */
+export const getEmphasisStyle = (node: NodeStyle): CSSProperties => ({
+  fontWeight: node.bold ? 700 : undefined,
+  fontStyle: node.italic ? 'italic' : undefined
+});
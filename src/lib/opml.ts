@@ -0,0 +1,125 @@
+import { MindMapNode } from '../types/mindmap';
+import { generateNodeId } from './parser';
+import { formatNodeMetadata, parseEscapedMetadata } from './metadata';
+import { childElements, escapeXml, parseXml } from './xmlUtils';
+
+/**
+ * Compute the OPML expansionState: indexes of expanded rows, counting
+ * only rows that are visible when the outline is opened.
+ */
+const getExpansionState = (nodes: MindMapNode[]): number[] => {
+  const expanded: number[] = [];
+  let row = 0;
+
+  const traverse = (nodeList: MindMapNode[]) => {
+    nodeList.forEach(node => {
+      const index = row;
+      row += 1;
+      if (node.children.length > 0 && node.isExpanded) {
+        expanded.push(index);
+        traverse(node.children);
+      }
+    });
+  };
+
+  traverse(nodes);
+  return expanded;
+};
+
+/**
+ * Convert mind map nodes to an OPML 2.0 document
+ */
+export const nodesToOPML = (nodes: MindMapNode[], title = 'Mind Map'): string => {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    `    <expansionState>${getExpansionState(nodes).join(',')}</expansionState>`,
+    '  </head>',
+    '  <body>'
+  ];
+
+  const writeNode = (node: MindMapNode, depth: number) => {
+    const indent = '  '.repeat(depth);
+    const noteAttr = node.note ? ` _note="${escapeXml(node.note)}"` : '';
+    const openTag = `${indent}<outline text="${escapeXml(formatNodeMetadata(node.label, node))}"${noteAttr}`;
+
+    if (node.children.length === 0) {
+      lines.push(`${openTag}/>`);
+      return;
+    }
+
+    lines.push(`${openTag}>`);
+    node.children.forEach(child => writeNode(child, depth + 1));
+    lines.push(`${indent}</outline>`);
+  };
+
+  nodes.forEach(node => writeNode(node, 2));
+  lines.push('  </body>', '</opml>');
+
+  return lines.join('\n');
+};
+
+/**
+ * Parse an OPML document into mind map nodes.
+ * Throws if the document is not well-formed OPML.
+ */
+export const parseOPML = (xml: string): MindMapNode[] => {
+  const doc = parseXml(xml);
+
+  const body = doc.querySelector('opml > body');
+  if (!body) {
+    throw new Error('The file is not an OPML outline (missing <body>).');
+  }
+
+  // Without an expansionState element every outline starts expanded
+  const expansionText = doc.querySelector('opml > head > expansionState')?.textContent;
+  const expandedRows = expansionText !== undefined && expansionText !== null
+    ? new Set(expansionText.split(',').filter(value => value.trim()).map(value => parseInt(value, 10)))
+    : null;
+  let row = 0;
+
+  const buildNode = (element: Element, level: number, parent?: MindMapNode, isVisible = true): MindMapNode => {
+    // Text holds the label with its inline metadata, as nodesToOPML writes it
+    const text = (element.getAttribute('text') ?? element.getAttribute('title') ?? '').replace(/\s+/g, ' ').trim();
+    const { label, metadata } = parseEscapedMetadata(text);
+    const node: MindMapNode = {
+      id: generateNodeId(),
+      label: label || 'Untitled',
+      level,
+      children: [],
+      parent,
+      isExpanded: true,
+      ...metadata
+    };
+
+    const note = element.getAttribute('_note');
+    if (note) {
+      node.note = note;
+    }
+
+    const outlines = childElements(element, 'outline');
+    if (isVisible) {
+      const index = row;
+      row += 1;
+      if (expandedRows && outlines.length > 0) {
+        node.isExpanded = expandedRows.has(index);
+      }
+    }
+
+    node.children = outlines.map(child =>
+      buildNode(child, level + 1, node, isVisible && node.isExpanded)
+    );
+
+    return node;
+  };
+
+  const nodes = childElements(body, 'outline').map(element => buildNode(element, 0));
+  if (nodes.length === 0) {
+    throw new Error('The OPML outline is empty.');
+  }
+
+  return nodes;
+};
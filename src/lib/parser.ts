@@ -1,4 +1,9 @@
-import { MindMapNode, ParsedLine } from '../types/mindmap';
+import { InputFormat, MindMapNode, NodeDetails, ParsedLine } from '../types/mindmap';
+import { isMermaidMindmap, parseMermaidToLines } from './mermaid';
+import { getSafeLink } from './links';
+import { escapeBackslashes, formatNodeMetadata, markEscapes, parseNodeMetadata, removeEscapeMarks } from './metadata';
+import { isNodeShape } from './nodeStyle';
+import { matchesSearchQuery, parseSearchQuery } from './searchQuery';
 
 let nodeIdCounter = 0;
 
@@ -7,32 +12,280 @@ export const generateNodeId = (): string => {
   return `node-${nodeIdCounter}`;
 };
 
-export const parseTextToLines = (text: string): ParsedLine[] => {
-  if (!text.trim()) return [];
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const LIST_ITEM_PATTERN = /^(?:[-*+•·▪▫‣⁃]|\d+[.)])\s+/;
+const FENCE_PATTERN = /^(```|~~~)/;
+const RULE_PATTERN = /^([-*_])(\s*\1){2,}\s*$/;
+
+// Split leading whitespace into tab and space counts
+export const measureIndent = (line: string): { tabs: number; spaces: number } => {
+  const whitespace = line.match(/^[ \t]*/)?.[0] ?? '';
+  const tabs = whitespace.split('\t').length - 1;
+  return { tabs, spaces: whitespace.length - tabs };
+};
+
+/**
+ * Detect how many spaces make up one indentation level in a document:
+ * the most common increase in space indentation between consecutive lines.
+ * Tabs always count as a single level, so only space indentation is measured.
+ */
+export const detectIndentUnit = (lines: string[]): number => {
+  const stepCounts = new Map<number, number>();
+  let previousSpaces = 0;
+  
+  lines.forEach(line => {
+    if (!line.trim()) return;
+    const { spaces } = measureIndent(line);
+    if (spaces > previousSpaces) {
+      const step = spaces - previousSpaces;
+      stepCounts.set(step, (stepCounts.get(step) ?? 0) + 1);
+    }
+    previousSpaces = spaces;
+  });
+  
+  // Ties go to the conventional widths first, then to the smaller step
+  const rank = (step: number) => [2, 4].includes(step) ? step - 10 : step;
+  let unit = 2; // Default to 2 spaces = 1 level
+  let bestCount = 0;
+  stepCounts.forEach((count, step) => {
+    if (count > bestCount || (count === bestCount && rank(step) < rank(unit))) {
+      unit = step;
+      bestCount = count;
+    }
+  });
+  
+  return unit;
+};
+
+export const getIndentLevel = (line: string, indentUnit: number): number => {
+  const { tabs, spaces } = measureIndent(line);
+  return tabs + Math.floor(spaces / indentUnit);
+};
+
+// Clean up bullet points and special characters
+const cleanLineContent = (trimmedLine: string): string => {
+  return trimmedLine
+    .replace(/^[•·▪▫‣⁃-]\s*/, '') // Remove bullet points
+    .replace(/^[*+]\s+/, '') // Remove Markdown-style bullets
+    .replace(/^[│├└]\s*/, '') // Remove tree characters
+    .replace(/^[\d]+[.)]\s*/, '') // Remove numbered lists
+    .trim();
+};
+
+// Strip inline Markdown formatting that would otherwise leak into labels
+const stripInlineMarkdown = (content: string): string => {
+  return content
+    .replace(/^\[[ xX]\]\s+/, '') // Task list checkboxes
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // Links and images
+    .replace(/(\*\*|__)(.+?)\1/g, '$2') // Bold
+    .replace(/`([^`]+)`/g, '$1') // Inline code
+    .trim();
+};
+
+// Trailing "{#anchor key=value flag ...}" block carrying node details, e.g. {#budget color=#fff bold}.
+// An escaped closing brace (see markEscapes) ends no block.
+const ATTRIBUTE_BLOCK_PATTERN = /\s*\{([^{}]*)(?<!\uE000)\}\s*$/;
+// Backslashes inside quoted values arrive as escape marks (see markEscapes)
+const ATTRIBUTE_TOKEN_PATTERN = /([a-zA-Z][\w-]*)=("(?:[^"\\\uE000]|[\\\uE000].)*"|[^\s"]+)/g;
+const ANCHOR_TOKEN_PATTERN = /(^|\s)#([\w-]+)(?=\s|$)/g;
+const FLAG_TOKEN_PATTERN = /(^|\s)(bold|italic|important)(?=\s|$)/gi;
+// Attribute names and the node detail each one sets
+const ATTRIBUTE_KEYS = {
+  color: 'color',
+  background: 'background',
+  link: 'link',
+  shape: 'shape',
+  icon: 'iconName'
+} as const;
+const FLAG_KEYS = ['bold', 'italic', 'important'] as const;
+
+type AttributeKey = keyof typeof ATTRIBUTE_KEYS;
+
+const isAttributeKey = (key: string): key is AttributeKey =>
+  Object.prototype.hasOwnProperty.call(ATTRIBUTE_KEYS, key);
+
+const unquote = (value: string): string => {
+  if (!value.startsWith('"')) return value;
+  return value.slice(1, -1).replace(/[\\\uE000](.)/g, '$1');
+};
+
+/**
+ * Split a trailing attribute block off a line's content.
+ * Braces that don't hold only known attributes are left in the label.
+ */
+export const parseAttributeBlock = (content: string): { content: string; details: NodeDetails } => {
+  const block = content.match(ATTRIBUTE_BLOCK_PATTERN);
+  if (!block || block.index === undefined) return { content, details: {} };
+  
+  const details: NodeDetails = {};
+  const leftover = block[1]
+    .replace(ATTRIBUTE_TOKEN_PATTERN, (_match, key: string, value: string) => {
+      const normalizedKey = key.toLowerCase();
+      if (!isAttributeKey(normalizedKey)) return _match;
+      const detail = unquote(value);
+      if (normalizedKey === 'shape') {
+        if (!isNodeShape(detail)) return _match;
+        details.shape = detail;
+      } else if (normalizedKey === 'link') {
+        // Links that aren't safe to open stay in the label as plain text
+        const link = getSafeLink(detail);
+        if (!link) return _match;
+        details.link = link;
+      } else {
+        details[ATTRIBUTE_KEYS[normalizedKey]] = detail;
+      }
+      return '';
+    })
+    .replace(ANCHOR_TOKEN_PATTERN, (_match, leading: string, anchor: string) => {
+      details.anchor = anchor;
+      return leading;
+    })
+    .replace(FLAG_TOKEN_PATTERN, (_match, leading: string, flag: string) => {
+      details[flag.toLowerCase() as typeof FLAG_KEYS[number]] = true;
+      return leading;
+    });
+  
+  if (leftover.trim() || Object.keys(details).length === 0) {
+    return { content, details: {} };
+  }
+  
+  return { content: content.slice(0, block.index).trim(), details };
+};
+
+const quoteAttributeValue = (value: string): string => {
+  return /[\s"{}\\]/.test(value) ? `"${value.replace(/(["\\])/g, '\\$1')}"` : value;
+};
+
+/**
+ * Format node details as a trailing attribute block (empty if there are none)
+ */
+export const formatAttributeBlock = (details: NodeDetails): string => {
+  const pairs = (Object.keys(ATTRIBUTE_KEYS) as AttributeKey[])
+    .filter(key => details[ATTRIBUTE_KEYS[key]])
+    .map(key => `${key}=${quoteAttributeValue(details[ATTRIBUTE_KEYS[key]] as string)}`);
   
-  const lines = text.split('\n');
+  if (details.anchor) {
+    pairs.unshift(`#${details.anchor}`);
+  }
+  FLAG_KEYS.forEach(flag => {
+    if (details[flag]) pairs.push(flag);
+  });
+  
+  return pairs.length > 0 ? ` {${pairs.join(' ')}}` : '';
+};
+
+// Split a line's content into its label and inline details
+const parseLineContent = (
+  rawContent: string,
+  cleanLabel: (label: string) => string = label => label
+): { content: string; details: NodeDetails } => {
+  const { content, details } = parseAttributeBlock(rawContent);
+  const { label, metadata } = parseNodeMetadata(cleanLabel(content));
+  return { content: label, details: { ...details, ...metadata } };
+};
+
+// Lines starting with ">" are notes on the node above them
+const NOTE_PATTERN = /^>\s?(.*)$/;
+
+const appendNote = (parsedLines: ParsedLine[], noteText: string): void => {
+  const target = parsedLines[parsedLines.length - 1];
+  if (!target) return;
+  target.note = target.note !== undefined ? `${target.note}\n${noteText}` : noteText;
+};
+
+/**
+ * Guess the input format: a leading `mindmap` header marks Mermaid,
+ * otherwise any ATX heading marks the text as Markdown.
+ */
+export const detectInputFormat = (text: string): Exclude<InputFormat, 'auto'> => {
+  if (isMermaidMindmap(text)) return 'mermaid';
+  
+  const hasHeading = text.split('\n').some(line => HEADING_PATTERN.test(line.trim()));
+  return hasHeading ? 'markdown' : 'plain';
+};
+
+const parsePlainLines = (lines: string[]): ParsedLine[] => {
+  const indentUnit = detectIndentUnit(lines);
   const parsedLines: ParsedLine[] = [];
   
   lines.forEach((line, index) => {
     const trimmedLine = line.trim();
     if (!trimmedLine) return;
     
-    // Calculate indentation level
-    const leadingSpaces = line.length - line.trimStart().length;
-    const level = Math.floor(leadingSpaces / 2); // 2 spaces = 1 level
+    const note = trimmedLine.match(NOTE_PATTERN);
+    if (note) {
+      appendNote(parsedLines, note[1]);
+      return;
+    }
+    
+    const { content, details } = parseLineContent(cleanLineContent(trimmedLine));
     
-    // Clean up bullet points and special characters
-    const cleanContent = trimmedLine
-      .replace(/^[•·▪▫‣⁃-]\s*/, '') // Remove bullet points
-      .replace(/^[│├└]\s*/, '') // Remove tree characters
-      .replace(/^[\d]+\.\s*/, '') // Remove numbered lists
-      .trim();
+    if (content) {
+      parsedLines.push({
+        content,
+        level: getIndentLevel(line, indentUnit),
+        lineNumber: index + 1,
+        ...details
+      });
+    }
+  });
+  
+  return parsedLines;
+};
+
+const parseMarkdownLines = (lines: string[]): ParsedLine[] => {
+  const parsedLines: ParsedLine[] = [];
+  const headingStack: number[] = []; // Depths of the currently open headings
+  let inFence = false;
+  
+  // Indentation is only meaningful outside headings and code blocks
+  const bodyLines = lines.filter(line => !HEADING_PATTERN.test(line.trim()));
+  const indentUnit = detectIndentUnit(bodyLines);
+  
+  lines.forEach((line, index) => {
+    const trimmedLine = line.trim();
+    
+    if (FENCE_PATTERN.test(trimmedLine)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence || !trimmedLine) return;
+    if (RULE_PATTERN.test(trimmedLine) || trimmedLine.startsWith('<!--')) return;
+    
+    const note = trimmedLine.match(NOTE_PATTERN);
+    if (note) {
+      appendNote(parsedLines, note[1]);
+      return;
+    }
+    
+    const heading = trimmedLine.match(HEADING_PATTERN);
+    if (heading) {
+      const depth = heading[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1] >= depth) {
+        headingStack.pop();
+      }
+      
+      const { content, details } = parseLineContent(heading[2], stripInlineMarkdown);
+      if (content) {
+        parsedLines.push({
+          content,
+          level: headingStack.length,
+          lineNumber: index + 1,
+          ...details
+        });
+        headingStack.push(depth);
+      }
+      return;
+    }
     
-    if (cleanContent) {
+    // Lists and paragraphs hang beneath the nearest heading
+    const { content, details } = parseLineContent(trimmedLine.replace(LIST_ITEM_PATTERN, ''), stripInlineMarkdown);
+    if (content) {
       parsedLines.push({
-        content: cleanContent,
-        level,
-        lineNumber: index + 1
+        content,
+        level: headingStack.length + getIndentLevel(line, indentUnit),
+        lineNumber: index + 1,
+        ...details
       });
     }
   });
@@ -40,23 +293,45 @@ export const parseTextToLines = (text: string): ParsedLine[] => {
   return parsedLines;
 };
 
+/**
+ * Parse text into lines with their levels and details. Outside Mermaid a
+ * backslash keeps the next character literal, e.g. "\#1" or "\- 5 °C".
+ */
+export const parseTextToLines = (text: string, format: InputFormat = 'auto'): ParsedLine[] => {
+  if (!text.trim()) return [];
+  
+  const lines = text.split('\n').map(markEscapes);
+  const resolvedFormat = format === 'auto' ? detectInputFormat(text) : format;
+  
+  switch (resolvedFormat) {
+    case 'markdown':
+      return parseMarkdownLines(lines).map(removeEscapeMarks);
+    case 'mermaid':
+      return parseMermaidToLines(text);
+    default:
+      return parsePlainLines(lines).map(removeEscapeMarks);
+  }
+};
+
 export const buildMindMapTree = (lines: ParsedLine[]): MindMapNode[] => {
   if (lines.length === 0) return [];
   
   const rootNodes: MindMapNode[] = [];
   const nodeStack: MindMapNode[] = [];
   
-  lines.forEach((line) => {
+  lines.forEach(({ content, level, lineNumber, ...details }) => {
     const node: MindMapNode = {
       id: generateNodeId(),
-      label: line.content,
-      level: line.level,
+      label: content,
+      level,
       children: [],
-      isExpanded: true
+      isExpanded: true,
+      lineNumber,
+      ...details
     };
     
     // Remove nodes from stack that are at same or deeper level
-    while (nodeStack.length > 0 && nodeStack[nodeStack.length - 1].level >= line.level) {
+    while (nodeStack.length > 0 && nodeStack[nodeStack.length - 1].level >= level) {
       nodeStack.pop();
     }
     
@@ -76,11 +351,215 @@ export const buildMindMapTree = (lines: ParsedLine[]): MindMapNode[] => {
   return rootNodes;
 };
 
-export const parseTextToMindMap = (text: string): MindMapNode[] => {
-  const lines = parseTextToLines(text);
+export const parseTextToMindMap = (text: string, format: InputFormat = 'auto'): MindMapNode[] => {
+  const lines = parseTextToLines(text, format);
   return buildMindMapTree(lines);
 };
 
+// Indentation and bullet marker used when writing nodes back to text
+export interface TextStyle {
+  indent: string;
+  bullet: string;
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = { indent: '  ', bullet: '' };
+
+/**
+ * Serialize a node tree back to indented text (2 spaces per level by default).
+ * Labels are escaped, metadata is written inline, details as a trailing
+ * attribute block and notes as "> " lines.
+ */
+export const mindMapToText = (nodes: MindMapNode[], style: TextStyle = DEFAULT_TEXT_STYLE): string => {
+  const lines: string[] = [];
+  
+  const writeNode = (node: MindMapNode, depth: number) => {
+    const indent = style.indent.repeat(depth);
+    lines.push(`${indent}${style.bullet}${formatNodeMetadata(node.label, node)}${formatAttributeBlock(node)}`);
+    
+    if (node.note) {
+      node.note.split('\n').forEach(noteLine => {
+        lines.push(`${indent}${style.indent}> ${escapeBackslashes(noteLine)}`.trimEnd());
+      });
+    }
+    
+    node.children.forEach(child => writeNode(child, depth + 1));
+  };
+  
+  nodes.forEach(node => writeNode(node, 0));
+  return lines.join('\n');
+};
+
+/**
+ * Collect the index paths (e.g. "0.2.1") of collapsed nodes.
+ * Index paths stay valid when the tree is serialized and parsed again.
+ */
+export const getCollapsedPaths = (nodes: MindMapNode[]): string[] => {
+  const paths: string[] = [];
+  
+  const traverse = (nodeList: MindMapNode[], prefix: string) => {
+    nodeList.forEach((node, index) => {
+      const path = prefix ? `${prefix}.${index}` : `${index}`;
+      if (!node.isExpanded && node.children.length > 0) {
+        paths.push(path);
+      }
+      traverse(node.children, path);
+    });
+  };
+  
+  traverse(nodes, '');
+  return paths;
+};
+
+/**
+ * Collapse the nodes at the given index paths, returning a new tree.
+ */
+export const applyCollapsedPaths = (nodes: MindMapNode[], paths: Set<string>): MindMapNode[] => {
+  if (paths.size === 0) return nodes;
+  
+  const apply = (nodeList: MindMapNode[], prefix: string): MindMapNode[] => {
+    return nodeList.map((node, index) => {
+      const path = prefix ? `${prefix}.${index}` : `${index}`;
+      return {
+        ...node,
+        isExpanded: paths.has(path) ? false : node.isExpanded,
+        children: apply(node.children, path)
+      };
+    });
+  };
+  
+  return apply(nodes, '');
+};
+
+/**
+ * Expand every ancestor of the nodes matching a predicate.
+ * Returns the same tree when nothing needed expanding.
+ */
+export const expandAncestors = (
+  nodes: MindMapNode[],
+  isTarget: (node: MindMapNode) => boolean
+): MindMapNode[] => {
+  const expand = (nodeList: MindMapNode[]): { nodes: MindMapNode[]; found: boolean } => {
+    let found = false;
+    let changed = false;
+    const updated = nodeList.map(node => {
+      const result = expand(node.children);
+      if (isTarget(node)) found = true;
+      if (!result.found) return node;
+      
+      found = true;
+      if (node.isExpanded && result.nodes === node.children) return node;
+      changed = true;
+      return { ...node, isExpanded: true, children: result.nodes };
+    });
+    return { nodes: changed ? updated : nodeList, found };
+  };
+  
+  return expand(nodes).nodes;
+};
+
+/**
+ * Replace the node with the given id, copying only its ancestors so the
+ * rest of the tree keeps its identity. Returns the same tree when the node
+ * is missing or unchanged.
+ */
+export const updateNode = (
+  nodes: MindMapNode[],
+  nodeId: string,
+  update: (node: MindMapNode) => MindMapNode
+): MindMapNode[] => {
+  let changed = false;
+  const updated = nodes.map(node => {
+    if (node.id === nodeId) {
+      const replacement = update(node);
+      if (replacement !== node) changed = true;
+      return replacement;
+    }
+    if (node.children.length === 0) return node;
+    const children = updateNode(node.children, nodeId, update);
+    if (children === node.children) return node;
+    changed = true;
+    return { ...node, children };
+  });
+  return changed ? updated : nodes;
+};
+
+/**
+ * Expand or collapse every node with children, based on the node and its
+ * depth (roots are 0). Nodes whose state does not change keep their identity.
+ */
+export const setExpansion = (
+  nodes: MindMapNode[],
+  shouldExpand: (node: MindMapNode, depth: number) => boolean
+): MindMapNode[] => {
+  const apply = (nodeList: MindMapNode[], depth: number): MindMapNode[] => {
+    let changed = false;
+    const updated = nodeList.map(node => {
+      if (node.children.length === 0) return node;
+      const children = apply(node.children, depth + 1);
+      const isExpanded = shouldExpand(node, depth);
+      if (children === node.children && isExpanded === node.isExpanded) return node;
+      changed = true;
+      return { ...node, isExpanded, children };
+    });
+    return changed ? updated : nodeList;
+  };
+
+  return apply(nodes, 0);
+};
+
+/**
+ * Depth of the deepest node, with roots at 0
+ */
+export const getMaxDepth = (nodes: MindMapNode[]): number =>
+  nodes.reduce((max, node) => Math.max(max, node.children.length > 0 ? 1 + getMaxDepth(node.children) : 0), 0);
+
+/**
+ * The node with the given id preceded by its ancestors, or an empty list
+ */
+export const findNodePath = (nodes: MindMapNode[], nodeId: string): MindMapNode[] => {
+  for (const node of nodes) {
+    if (node.id === nodeId) return [node];
+    const path = findNodePath(node.children, nodeId);
+    if (path.length > 0) return [node, ...path];
+  }
+  return [];
+};
+
+/**
+ * A node as one row of the tree view, with what is needed to draw its
+ * connector lines: guides[i] is true when a line continues down past the
+ * row at indentation level i, and isLast marks a parent's last child.
+ * position and setSize place the row among its siblings (1-based).
+ */
+export interface TreeRow {
+  node: MindMapNode;
+  depth: number;
+  isLast: boolean;
+  guides: boolean[];
+  position: number;
+  setSize: number;
+}
+
+/**
+ * Flatten the nodes that are currently shown, skipping collapsed branches
+ */
+export const flattenVisibleRows = (nodes: MindMapNode[]): TreeRow[] => {
+  const rows: TreeRow[] = [];
+
+  const traverse = (nodeList: MindMapNode[], depth: number, guides: boolean[]) => {
+    nodeList.forEach((node, index) => {
+      const isLast = index === nodeList.length - 1;
+      rows.push({ node, depth, isLast, guides, position: index + 1, setSize: nodeList.length });
+      if (node.isExpanded && node.children.length > 0) {
+        traverse(node.children, depth + 1, depth === 0 ? [] : [...guides, !isLast]);
+      }
+    });
+  };
+
+  traverse(nodes, 0, []);
+  return rows;
+};
+
 export const flattenNodes = (nodes: MindMapNode[]): MindMapNode[] => {
   const flattened: MindMapNode[] = [];
   
@@ -97,11 +576,46 @@ export const flattenNodes = (nodes: MindMapNode[]): MindMapNode[] => {
   return flattened;
 };
 
+/**
+ * Prune a tree to the given nodes plus their ancestor paths, optionally
+ * keeping their descendants too. Returns a new tree of shallow copies.
+ */
+export const filterNodes = (
+  nodes: MindMapNode[],
+  keepIds: Set<string>,
+  includeDescendants = false
+): MindMapNode[] => {
+  const prune = (nodeList: MindMapNode[]): MindMapNode[] => {
+    return nodeList.flatMap(node => {
+      const isKept = keepIds.has(node.id);
+      if (isKept && includeDescendants) return [node];
+      
+      const children = prune(node.children);
+      if (!isKept && children.length === 0) return [];
+      return [{ ...node, children }];
+    });
+  };
+  
+  return prune(nodes);
+};
+
+/**
+ * Find the nodes matching a search query (see parseSearchQuery for the syntax)
+ */
 export const searchNodes = (nodes: MindMapNode[], query: string): MindMapNode[] => {
-  if (!query.trim()) return [];
+  const parsedQuery = parseSearchQuery(query);
+  if (!parsedQuery) return [];
+  
+  const matches: MindMapNode[] = [];
+  const traverse = (nodeList: MindMapNode[], ancestors: MindMapNode[]) => {
+    nodeList.forEach(node => {
+      if (matchesSearchQuery(parsedQuery, node, ancestors)) {
+        matches.push(node);
+      }
+      traverse(node.children, [...ancestors, node]);
+    });
+  };
   
-  const allNodes = flattenNodes(nodes);
-  return allNodes.filter(node => 
-    node.label.toLowerCase().includes(query.toLowerCase())
-  );
+  traverse(nodes, []);
+  return matches;
 };
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { InputFormat } from '../types/mindmap';
+import { TextAnalysis, analyzeText } from './diagnostics';
+
+export interface ParseRequest {
+  id: number;
+  text: string;
+  format: InputFormat;
+}
+
+export interface ParseResponse extends TextAnalysis {
+  id: number;
+}
+
+/**
+ * Parses and checks input text off the main thread. Every request carries an id that
+ * is echoed back so callers can drop answers to outdated requests.
+ */
+self.onmessage = (event: MessageEvent<ParseRequest>) => {
+  const { id, text, format } = event.data;
+  const response: ParseResponse = { id, ...analyzeText(text, format) };
+  self.postMessage(response);
+};
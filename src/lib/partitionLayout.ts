@@ -0,0 +1,111 @@
+import { MindMapNode } from '../types/mindmap';
+
+/**
+ * A node's slice of a space-filling chart: start and end are fractions of
+ * the full extent, depth counts from the chart's root
+ */
+export interface PartitionCell {
+  node: MindMapNode;
+  depth: number;
+  start: number;
+  end: number;
+  value: number;
+  // Index of the top-level branch the cell belongs to, -1 for the root
+  branch: number;
+}
+
+const parseValue = (value: string | undefined): number => {
+  const parsed = Number.parseFloat(value ?? '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+/**
+ * Property keys with a numeric value on at least one node, for sizing cells
+ */
+export const getNumericPropertyKeys = (nodes: MindMapNode[]): string[] => {
+  const keys = new Set<string>();
+  const visit = (node: MindMapNode) => {
+    Object.entries(node.properties ?? {}).forEach(([key, value]) => {
+      if (parseValue(value) > 0) keys.add(key);
+    });
+    node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+  return Array.from(keys).sort();
+};
+
+/**
+ * Size of a node in a partition chart: its own weight plus its children's.
+ * Without a property every node weighs 1, so size reflects the number of
+ * descendants; with one, the node's numeric value of that property.
+ */
+const measureValues = (node: MindMapNode, sizeProperty: string | undefined, values: Map<string, number>): number => {
+  const own = sizeProperty ? parseValue(node.properties?.[sizeProperty]) : 1;
+  const total = node.children.reduce((sum, child) => sum + measureValues(child, sizeProperty, values), own);
+  values.set(node.id, total);
+  return total;
+};
+
+/**
+ * Divide the full extent between the nodes of a hierarchy: every node's
+ * slice is proportional to its size and nested inside its parent's, so
+ * each level forms one ring (sunburst) or row (icicle). Cells deeper than
+ * maxDepth or with no size are left out. Several roots share depth 0.
+ */
+export const calculatePartition = (
+  nodes: MindMapNode[],
+  sizeProperty?: string,
+  maxDepth = Infinity
+): PartitionCell[] => {
+  const values = new Map<string, number>();
+  const total = nodes.reduce((sum, node) => sum + measureValues(node, sizeProperty, values), 0);
+  const cells: PartitionCell[] = [];
+  if (total <= 0) return cells;
+
+  const place = (siblings: MindMapNode[], depth: number, start: number, span: number, parentValue: number, branch: number) => {
+    let cursor = start;
+    siblings.forEach((node, index) => {
+      const value = values.get(node.id) as number;
+      if (value <= 0) return;
+      const nodeSpan = span * value / parentValue;
+      const nodeBranch = depth === 0 && siblings.length === 1 ? -1 : branch < 0 ? index : branch;
+      cells.push({ node, depth, start: cursor, end: cursor + nodeSpan, value, branch: nodeBranch });
+      if (depth < maxDepth) {
+        place(node.children, depth + 1, cursor, nodeSpan, value, nodeBranch);
+      }
+      cursor += nodeSpan;
+    });
+  };
+  place(nodes, 0, 0, 1, total, -1);
+
+  return cells;
+};
+
+/**
+ * SVG path of a ring segment between two radii and two angles (radians,
+ * clockwise from 12 o'clock). A full turn is drawn as a closed ring.
+ */
+export const getArcPath = (
+  innerRadius: number,
+  outerRadius: number,
+  startAngle: number,
+  endAngle: number
+): string => {
+  const point = (radius: number, angle: number) =>
+    `${radius * Math.sin(angle)} ${-radius * Math.cos(angle)}`;
+
+  if (endAngle - startAngle >= 2 * Math.PI - 1e-6) {
+    const outer = `M ${point(outerRadius, 0)} A ${outerRadius} ${outerRadius} 0 1 1 ${point(outerRadius, Math.PI)} A ${outerRadius} ${outerRadius} 0 1 1 ${point(outerRadius, 0)} Z`;
+    if (innerRadius <= 0) return outer;
+    return `${outer} M ${point(innerRadius, 0)} A ${innerRadius} ${innerRadius} 0 1 0 ${point(innerRadius, Math.PI)} A ${innerRadius} ${innerRadius} 0 1 0 ${point(innerRadius, 0)} Z`;
+  }
+
+  const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+  return [
+    `M ${point(outerRadius, startAngle)}`,
+    `A ${outerRadius} ${outerRadius} 0 ${largeArc} 1 ${point(outerRadius, endAngle)}`,
+    `L ${point(innerRadius, endAngle)}`,
+    innerRadius > 0 ? `A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${point(innerRadius, startAngle)}` : '',
+    'Z'
+  ].filter(Boolean).join(' ');
+};
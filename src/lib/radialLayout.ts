@@ -0,0 +1,135 @@
+import { MindMapNode, NodeSize } from '../types/mindmap';
+
+export interface PositionedNode extends MindMapNode {
+  x: number;
+  y: number;
+  angle: number;
+  radius: number;
+}
+
+export interface RadialLayout {
+  nodes: PositionedNode[];
+  bounds: { minX: number; minY: number; width: number; height: number };
+}
+
+// Space between rings and between neighbours on the same ring
+const RING_GAP = 60;
+const NODE_GAP = 16;
+const FIRST_RING_RADIUS = 120;
+const LAYOUT_PADDING = 40;
+
+interface Slot {
+  node: MindMapNode;
+  depth: number;
+  span: number;
+  angle: number;
+}
+
+/**
+ * Size of a node before it has been rendered and measured
+ */
+export const estimateNodeSize = (node: MindMapNode): NodeSize => ({
+  width: Math.min(200, Math.max(80, node.label.length * 7 + 40)),
+  height: 36
+});
+
+// Half of a box's extent along the direction of the given angle
+const radialHalfExtent = (size: NodeSize, angle: number): number =>
+  (Math.abs(Math.cos(angle)) * size.width + Math.abs(Math.sin(angle)) * size.height) / 2;
+
+// A box's extent across the direction of the given angle
+const tangentialExtent = (size: NodeSize, angle: number): number =>
+  Math.abs(Math.sin(angle)) * size.width + Math.abs(Math.cos(angle)) * size.height;
+
+/**
+ * Radial tree layout centred on the origin. Every node gets a wedge
+ * proportional to the number of visible leaves below it and its children
+ * share that wedge, so branches never cross. Ring radii grow until each
+ * node's label fits its share of the ring and neighbouring rings clear
+ * each other. Several roots are placed on the first ring around an empty
+ * centre.
+ */
+export const calculateRadialLayout = (
+  nodes: MindMapNode[],
+  getSize: (node: MindMapNode) => NodeSize = estimateNodeSize
+): RadialLayout => {
+  const leafCounts = new Map<string, number>();
+  const countLeaves = (node: MindMapNode): number => {
+    const count = node.isExpanded && node.children.length > 0
+      ? node.children.reduce((sum, child) => sum + countLeaves(child), 0)
+      : 1;
+    leafCounts.set(node.id, count);
+    return count;
+  };
+  const totalLeaves = nodes.reduce((sum, node) => sum + countLeaves(node), 0);
+
+  const slots: Slot[] = [];
+  const assignWedges = (siblings: MindMapNode[], depth: number, start: number, span: number, leaves: number) => {
+    let cursor = start;
+    siblings.forEach(node => {
+      const nodeSpan = span * (leafCounts.get(node.id) as number) / leaves;
+      slots.push({ node, depth, span: nodeSpan, angle: cursor + nodeSpan / 2 });
+      if (node.isExpanded && node.children.length > 0) {
+        assignWedges(node.children, depth + 1, cursor, nodeSpan, leafCounts.get(node.id) as number);
+      }
+      cursor += nodeSpan;
+    });
+  };
+  assignWedges(nodes, nodes.length === 1 ? 0 : 1, 0, 2 * Math.PI, totalLeaves);
+  if (slots.length === 0) {
+    return { nodes: [], bounds: { minX: 0, minY: 0, width: 0, height: 0 } };
+  }
+
+  const sizes = new Map(slots.map(slot => [slot.node.id, getSize(slot.node)]));
+  const maxDepth = Math.max(...slots.map(slot => slot.depth));
+
+  // Per ring: how far labels reach inwards/outwards and the radius at which they fit side by side
+  const radialExtents = new Array(maxDepth + 1).fill(0);
+  const fitRadii = new Array(maxDepth + 1).fill(0);
+  slots.forEach(({ node, depth, span, angle }) => {
+    const size = sizes.get(node.id) as NodeSize;
+    radialExtents[depth] = Math.max(radialExtents[depth], radialHalfExtent(size, angle));
+    if (span < 2 * Math.PI) {
+      fitRadii[depth] = Math.max(fitRadii[depth], (tangentialExtent(size, angle) + NODE_GAP) / span);
+    }
+  });
+
+  const radii = [0];
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    radii[depth] = Math.max(
+      radii[depth - 1] + radialExtents[depth - 1] + radialExtents[depth] + RING_GAP,
+      fitRadii[depth],
+      depth === 1 ? FIRST_RING_RADIUS : 0
+    );
+  }
+
+  const positioned = slots.map(({ node, depth, angle }): PositionedNode => ({
+    ...node,
+    x: Math.cos(angle) * radii[depth],
+    y: Math.sin(angle) * radii[depth],
+    angle,
+    radius: radii[depth]
+  }));
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  positioned.forEach(node => {
+    const { width, height } = sizes.get(node.id) as NodeSize;
+    minX = Math.min(minX, node.x - width / 2);
+    maxX = Math.max(maxX, node.x + width / 2);
+    minY = Math.min(minY, node.y - height / 2);
+    maxY = Math.max(maxY, node.y + height / 2);
+  });
+
+  return {
+    nodes: positioned,
+    bounds: {
+      minX: minX - LAYOUT_PADDING,
+      minY: minY - LAYOUT_PADDING,
+      width: maxX - minX + LAYOUT_PADDING * 2,
+      height: maxY - minY + LAYOUT_PADDING * 2
+    }
+  };
+};
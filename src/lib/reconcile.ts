@@ -0,0 +1,106 @@
+import { MindMapNode } from '../types/mindmap';
+import { flattenNodes } from './parser';
+import { editDistance } from './searchQuery';
+
+// Labels at least this similar are treated as the same node being edited
+const SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * Similarity of two labels from 0 (unrelated) to 1 (identical)
+ */
+export const labelSimilarity = (a: string, b: string): number => {
+  const left = a.trim().toLowerCase();
+  const right = b.trim().toLowerCase();
+  const maxLength = Math.max(left.length, right.length);
+  return maxLength === 0 ? 1 : 1 - editDistance(left, right) / maxLength;
+};
+
+/**
+ * Carry node identity and UI state from the previous tree onto a freshly
+ * parsed one, so collapsed branches, selection and highlights survive edits.
+ *
+ * Siblings are matched first by identical label, then by position or best
+ * label similarity; nodes that moved to another branch are found by a unique
+ * identical label anywhere in the old tree. Matched nodes keep their id and
+ * expansion state; everything else keeps its fresh id.
+ */
+export const reconcileNodes = (previous: MindMapNode[], next: MindMapNode[]): MindMapNode[] => {
+  if (previous.length === 0 || next.length === 0) return next;
+
+  const used = new Set<string>();
+
+  // Labels that occur exactly once in the old tree can be matched across branches
+  const labelCounts = new Map<string, number>();
+  const byUniqueLabel = new Map<string, MindMapNode>();
+  flattenNodes(previous).forEach(node => {
+    labelCounts.set(node.label, (labelCounts.get(node.label) ?? 0) + 1);
+    byUniqueLabel.set(node.label, node);
+  });
+  labelCounts.forEach((count, label) => {
+    if (count > 1) byUniqueLabel.delete(label);
+  });
+
+  const adopt = (node: MindMapNode, match: MindMapNode) => {
+    used.add(match.id);
+    node.id = match.id;
+    node.isExpanded = match.isExpanded;
+  };
+
+  const matchSiblings = (oldSiblings: MindMapNode[], newSiblings: MindMapNode[]) => {
+    const matches = new Map<MindMapNode, MindMapNode>();
+    const available = () => oldSiblings.filter(old => !used.has(old.id));
+
+    // 1. Identical labels, in order
+    newSiblings.forEach(node => {
+      const match = available().find(old => old.label === node.label);
+      if (match) {
+        adopt(node, match);
+        matches.set(node, match);
+      }
+    });
+
+    // 2. Edited labels: same position first, then the most similar sibling
+    newSiblings.forEach((node, index) => {
+      if (matches.has(node)) return;
+
+      const samePosition = oldSiblings[index];
+      if (samePosition && !used.has(samePosition.id) &&
+          labelSimilarity(samePosition.label, node.label) >= SIMILARITY_THRESHOLD / 2) {
+        adopt(node, samePosition);
+        matches.set(node, samePosition);
+        return;
+      }
+
+      let best: MindMapNode | undefined;
+      let bestScore = SIMILARITY_THRESHOLD;
+      available().forEach(old => {
+        const score = labelSimilarity(old.label, node.label);
+        if (score >= bestScore) {
+          best = old;
+          bestScore = score;
+        }
+      });
+      if (best) {
+        adopt(node, best);
+        matches.set(node, best);
+      }
+    });
+
+    // 3. Nodes moved from another branch
+    newSiblings.forEach(node => {
+      if (matches.has(node)) return;
+      const moved = byUniqueLabel.get(node.label);
+      if (moved && !used.has(moved.id)) {
+        adopt(node, moved);
+        matches.set(node, moved);
+      }
+    });
+
+    newSiblings.forEach(node => {
+      matchSiblings(matches.get(node)?.children ?? [], node.children);
+    });
+  };
+
+  matchSiblings(previous, next);
+  return next;
+};
@@ -0,0 +1,325 @@
+import { MindMapNode } from '../types/mindmap';
+import { MetadataQuery, matchesMetadataQuery, parseMetadataQuery } from './metadata';
+
+/**
+ * A single search condition on one node
+ */
+export type QueryTerm =
+  | { kind: 'text'; value: string }
+  | { kind: 'fuzzy'; value: string; distance: number }
+  | { kind: 'regex'; pattern: RegExp }
+  | { kind: 'field'; field: SearchField; value: string }
+  | { kind: 'metadata'; query: MetadataQuery };
+
+export type SearchField = 'level' | 'leaf' | 'has' | 'under';
+
+export type SearchQuery =
+  | { type: 'and'; children: SearchQuery[] }
+  | { type: 'or'; children: SearchQuery[] }
+  | { type: 'not'; child: SearchQuery }
+  | { type: 'term'; term: QueryTerm };
+
+type Token =
+  | { type: 'and' | 'or' | 'not' | 'lparen' | 'rparen' }
+  | { type: 'term'; term: QueryTerm };
+
+const FIELD_PATTERN = /^(level|leaf|has|under):(.+)$/i;
+const FUZZY_PATTERN = /^(.+)~(\d)?$/;
+const METADATA_PATTERN = /^(#.+|![1-3]|[\w-]+::.*)$/;
+
+/**
+ * Levenshtein distance between two strings
+ */
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(currentRow[j - 1] + 1, previousRow[j] + 1, previousRow[j - 1] + cost);
+    }
+    previousRow = currentRow;
+  }
+  return previousRow[b.length];
+};
+
+// Regexes are case-insensitive unless flags are given; g and y would make test() stateful
+const compileRegex = (source: string, flags: string): RegExp | null => {
+  try {
+    return new RegExp(source, flags ? flags.replace(/[gy]/g, '') : 'i');
+  } catch {
+    return null;
+  }
+};
+
+const classifyWord = (word: string): Token => {
+  if (word === 'AND' || word === 'OR' || word === 'NOT') {
+    return { type: word.toLowerCase() as 'and' | 'or' | 'not' };
+  }
+
+  const field = word.match(FIELD_PATTERN);
+  if (field) {
+    return { type: 'term', term: { kind: 'field', field: field[1].toLowerCase() as SearchField, value: field[2] } };
+  }
+  if (METADATA_PATTERN.test(word) && word.length > 1) {
+    return { type: 'term', term: { kind: 'metadata', query: parseMetadataQuery(word) } };
+  }
+
+  const fuzzy = word.match(FUZZY_PATTERN);
+  if (fuzzy) {
+    const distance = fuzzy[2] !== undefined ? Number(fuzzy[2]) : fuzzy[1].length <= 4 ? 1 : 2;
+    return { type: 'term', term: { kind: 'fuzzy', value: fuzzy[1], distance } };
+  }
+
+  return { type: 'term', term: { kind: 'text', value: word } };
+};
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  // Read up to an unescaped closing delimiter, returning the text and the index after it
+  const readUntil = (start: number, delimiter: string): [string, number] => {
+    let value = '';
+    let position = start;
+    while (position < query.length && query[position] !== delimiter) {
+      if (query[position] === '\\' && query[position + 1] === delimiter) {
+        value += delimiter === '/' ? '\\/' : delimiter;
+        position += 2;
+      } else {
+        value += query[position];
+        position += 1;
+      }
+    }
+    return [value, position + 1];
+  };
+
+  while (index < query.length) {
+    const char = query[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen' });
+      index += 1;
+    } else if (char === '-' && index + 1 < query.length && !/\s/.test(query[index + 1])) {
+      // -term is shorthand for NOT term
+      tokens.push({ type: 'not' });
+      index += 1;
+    } else if (char === '"') {
+      const [phrase, next] = readUntil(index + 1, '"');
+      if (phrase.trim()) tokens.push({ type: 'term', term: { kind: 'text', value: phrase.trim() } });
+      index = next;
+    } else if (char === '/') {
+      const [source, next] = readUntil(index + 1, '/');
+      const flags = query.slice(next).match(/^[a-z]*/)?.[0] ?? '';
+      const pattern = source ? compileRegex(source, flags) : null;
+      tokens.push({ type: 'term', term: pattern ? { kind: 'regex', pattern } : { kind: 'text', value: source } });
+      index = next + flags.length;
+    } else {
+      let word = '';
+      while (index < query.length && !/[\s()]/.test(query[index])) {
+        // Field values may be quoted, as in under:"Key Tasks"
+        if (query[index] === '"' && /^[a-z]+:$/i.test(word)) {
+          const [value, next] = readUntil(index + 1, '"');
+          word += value;
+          index = next;
+          break;
+        }
+        word += query[index];
+        index += 1;
+      }
+      tokens.push(classifyWord(word));
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse a search query. Terms next to each other must all match; OR
+ * combines alternatives, NOT (or a leading -) negates, and parentheses group.
+ *
+ * Terms: words and "quoted phrases" (substring), /regex/flags, word~ or
+ * word~N (typo tolerant), level:2 / level:>1, leaf:true, has:children|note|
+ * link|tags|priority|icon, under:"Ancestor", plus #tag, !1 and key::value.
+ * Malformed input never throws; unmatched parentheses are ignored.
+ */
+export const parseSearchQuery = (query: string): SearchQuery | null => {
+  const tokens = tokenize(query);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const combine = (type: 'and' | 'or', children: SearchQuery[]): SearchQuery | null => {
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type, children };
+  };
+
+  const parseUnary = (): SearchQuery | null => {
+    const token = peek();
+    if (!token) return null;
+
+    if (token.type === 'not') {
+      position += 1;
+      const child = parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+    if (token.type === 'lparen') {
+      position += 1;
+      const inner = parseOr();
+      if (peek()?.type === 'rparen') position += 1;
+      return inner;
+    }
+    if (token.type === 'term') {
+      position += 1;
+      return { type: 'term', term: token.term };
+    }
+    return null;
+  };
+
+  const parseAnd = (): SearchQuery | null => {
+    const children: SearchQuery[] = [];
+    for (let token = peek(); token && token.type !== 'rparen' && token.type !== 'or'; token = peek()) {
+      if (token.type === 'and') {
+        position += 1;
+        continue;
+      }
+      const child = parseUnary();
+      if (child) children.push(child);
+    }
+    return combine('and', children);
+  };
+
+  const parseOr = (): SearchQuery | null => {
+    const children: SearchQuery[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+    while (peek()?.type === 'or') {
+      position += 1;
+      const next = parseAnd();
+      if (next) children.push(next);
+    }
+    return combine('or', children);
+  };
+
+  const parts: SearchQuery[] = [];
+  while (position < tokens.length) {
+    const part = parseOr();
+    if (part) parts.push(part);
+    // Skip a stray closing parenthesis and keep going
+    if (peek()?.type === 'rparen') position += 1;
+  }
+  return combine('and', parts);
+};
+
+const compareNumber = (actual: number, condition: string): boolean => {
+  const match = condition.match(/^(<=|>=|<|>|=)?(\d+)$/);
+  if (!match) return false;
+  const expected = Number(match[2]);
+  switch (match[1]) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    default: return actual === expected;
+  }
+};
+
+const hasDetail = (node: MindMapNode, detail: string): boolean => {
+  switch (detail.toLowerCase()) {
+    case 'children': return node.children.length > 0;
+    case 'note': return !!node.note;
+    case 'link': return !!node.link;
+    case 'tags': return (node.tags?.length ?? 0) > 0;
+    case 'priority': return node.priority !== undefined;
+    case 'icon': return !!node.icon;
+    case 'properties': return Object.keys(node.properties ?? {}).length > 0;
+    case 'anchor': return !!node.anchor;
+    default: return false;
+  }
+};
+
+const matchesTerm = (term: QueryTerm, node: MindMapNode, ancestors: MindMapNode[]): boolean => {
+  const label = node.label.toLowerCase();
+
+  switch (term.kind) {
+    case 'text':
+      return label.includes(term.value.toLowerCase());
+    case 'fuzzy': {
+      const value = term.value.toLowerCase();
+      return label.includes(value) ||
+        label.split(/[^\p{L}\p{N}]+/u).some(word => word && editDistance(word, value) <= term.distance);
+    }
+    case 'regex':
+      return term.pattern.test(node.label);
+    case 'metadata':
+      return matchesMetadataQuery(node, term.query);
+    case 'field':
+      switch (term.field) {
+        case 'level': return compareNumber(node.level, term.value);
+        case 'leaf': return (node.children.length === 0) === (term.value.toLowerCase() !== 'false');
+        case 'has': return hasDetail(node, term.value);
+        case 'under': {
+          const value = term.value.toLowerCase();
+          return ancestors.some(ancestor => ancestor.label.toLowerCase().includes(value));
+        }
+      }
+  }
+  return false;
+};
+
+/**
+ * Check whether a node satisfies a parsed query; ancestors are listed root first
+ */
+export const matchesSearchQuery = (query: SearchQuery, node: MindMapNode, ancestors: MindMapNode[] = []): boolean => {
+  switch (query.type) {
+    case 'and': return query.children.every(child => matchesSearchQuery(child, node, ancestors));
+    case 'or': return query.children.some(child => matchesSearchQuery(child, node, ancestors));
+    case 'not': return !matchesSearchQuery(query.child, node, ancestors);
+    case 'term': return matchesTerm(query.term, node, ancestors);
+  }
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Pattern matching the label text a query searches for, used to highlight
+ * matches. Negated terms and filters are left out.
+ */
+export const getHighlightPattern = (query: string): RegExp | null => {
+  const sources: string[] = [];
+
+  const collect = (node: SearchQuery | null) => {
+    if (!node) return;
+    if (node.type === 'and' || node.type === 'or') node.children.forEach(collect);
+    if (node.type !== 'term') return;
+    if (node.term.kind === 'text' || node.term.kind === 'fuzzy') sources.push(escapeRegExp(node.term.value));
+    if (node.term.kind === 'regex') sources.push(node.term.pattern.source);
+  };
+  collect(parseSearchQuery(query));
+
+  return sources.length > 0 ? compileRegex(sources.map(source => `(?:${source})`).join('|'), 'i') : null;
+};
+
+/**
+ * Split text into plain and highlighted segments
+ */
+export const splitHighlights = (text: string, pattern: RegExp | null): { text: string; isMatch: boolean }[] => {
+  if (!pattern) return [{ text, isMatch: false }];
+
+  const segments: { text: string; isMatch: boolean }[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(new RegExp(pattern.source, 'gi'))) {
+    if (!match[0] || match.index === undefined) continue;
+    if (match.index > lastIndex) segments.push({ text: text.slice(lastIndex, match.index), isMatch: false });
+    segments.push({ text: match[0], isMatch: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), isMatch: false });
+  return segments;
+};
@@ -0,0 +1,323 @@
+import { InputFormat, MindMapNode, NodeStyle } from '../types/mindmap';
+import { detectIndentUnit, detectInputFormat, flattenNodes, formatAttributeBlock, TextStyle } from './parser';
+import { formatNodeMetadata } from './metadata';
+import { formatMermaidNode } from './mermaid';
+
+type EditableFormat = Exclude<InputFormat, 'auto'>;
+
+/**
+ * Result of an edit: the new text and the line of the affected node
+ */
+export interface TextEdit {
+  text: string;
+  lineNumber: number;
+}
+
+const HEADING_MARKER = /^(#{1,6})\s+/;
+const LIST_MARKER = /^(?:[-*+•·▪▫‣⁃]|\d+[.)])\s+/;
+const TREE_MARKER = /^[│├└]\s*/;
+const NOTE_LINE = /^\s*>/;
+
+export const DEFAULT_NODE_LABEL = 'New node';
+
+// Every style field unset, so a new style replaces the old one entirely
+const clearStyle: Record<keyof NodeStyle, undefined> = {
+  color: undefined,
+  background: undefined,
+  shape: undefined,
+  bold: undefined,
+  italic: undefined,
+  iconName: undefined,
+  important: undefined
+};
+
+// A node line split into leading whitespace, bullet or heading marker, and content
+interface LineParts {
+  indent: string;
+  marker: string;
+  content: string;
+}
+
+const splitLine = (line: string, format: EditableFormat): LineParts => {
+  const indent = line.match(/^\s*/)?.[0] ?? '';
+  const rest = line.slice(indent.length);
+  const markers = format === 'mermaid' ? [] : format === 'markdown' ? [HEADING_MARKER, LIST_MARKER] : [LIST_MARKER, TREE_MARKER];
+  const marker = markers.map(pattern => rest.match(pattern)?.[0]).find(Boolean) ?? '';
+  return { indent, marker, content: rest.slice(marker.length) };
+};
+
+const resolveFormat = (text: string, format: InputFormat): EditableFormat =>
+  format === 'auto' ? detectInputFormat(text) : format;
+
+/**
+ * Work out the indentation and bullet marker a document is written with,
+ * so inserted lines look like the ones around them.
+ */
+export const detectTextStyle = (text: string, format: InputFormat = 'auto'): TextStyle => {
+  const resolvedFormat = resolveFormat(text, format);
+  const lines = text.split('\n').filter(line => line.trim() && !NOTE_LINE.test(line));
+
+  const tabLines = lines.filter(line => line.startsWith('\t')).length;
+  const spaceLines = lines.filter(line => line.startsWith(' ')).length;
+  const indent = tabLines > spaceLines ? '\t' : ' '.repeat(detectIndentUnit(lines));
+
+  if (resolvedFormat === 'mermaid') return { indent, bullet: '' };
+
+  // The most common list marker wins; numbered lists restart at "1."
+  const bulletCounts = new Map<string, number>();
+  lines.forEach(line => {
+    const marker = line.trim().match(LIST_MARKER)?.[0];
+    if (!marker) return;
+    const bullet = /^\d/.test(marker) ? '1. ' : `${marker.trim()} `;
+    bulletCounts.set(bullet, (bulletCounts.get(bullet) ?? 0) + 1);
+  });
+
+  let bullet = resolvedFormat === 'markdown' ? '- ' : '';
+  let bestCount = 0;
+  bulletCounts.forEach((count, marker) => {
+    if (count > bestCount) {
+      bullet = marker;
+      bestCount = count;
+    }
+  });
+
+  return { indent, bullet };
+};
+
+const findNode = (nodes: MindMapNode[], nodeId: string): MindMapNode | undefined =>
+  flattenNodes(nodes).find(node => node.id === nodeId && node.lineNumber !== undefined);
+
+// Lines [start, end) holding a node, its descendants and their notes
+const getBlockRange = (lines: string[], node: MindMapNode): { start: number; end: number } => {
+  const start = (node.lineNumber as number) - 1;
+  let end = Math.max(...flattenNodes([node]).map(item => item.lineNumber ?? 0));
+  while (end < lines.length && NOTE_LINE.test(lines[end])) {
+    end++;
+  }
+  return { start, end };
+};
+
+const formatContent = (label: string, node: MindMapNode, format: EditableFormat, definition?: string): string => {
+  if (format === 'mermaid') return formatMermaidNode(label, definition);
+  return `${formatNodeMetadata(label, node)}${formatAttributeBlock(node)}`;
+};
+
+const getHeadingDepths = (lines: string[], format: EditableFormat): Set<number> => {
+  const depths = new Set<number>();
+  if (format !== 'markdown') return depths;
+  lines.forEach(line => {
+    const heading = line.trim().match(HEADING_MARKER);
+    if (heading) depths.add(heading[1].length);
+  });
+  return depths;
+};
+
+/**
+ * Line prefix for a new child of the given parent line. Headings nest as
+ * deeper headings when the document uses them; everything else becomes
+ * an indented list item with the parent's (or the document's) bullet.
+ */
+const getChildPrefix = (
+  parent: LineParts,
+  style: TextStyle,
+  headingDepths: Set<number>,
+  ownMarker = ''
+): string => {
+  const ownHeading = HEADING_MARKER.test(ownMarker);
+  const listMarker = (marker: string) => (HEADING_MARKER.test(marker) ? '' : marker);
+  const parentHeading = parent.marker.match(HEADING_MARKER);
+
+  if (parentHeading) {
+    const depth = parentHeading[1].length + 1;
+    if (depth <= 6 && (ownHeading || headingDepths.has(depth))) return `${'#'.repeat(depth)} `;
+    return listMarker(ownMarker) || style.bullet;
+  }
+  return `${parent.indent}${style.indent}${listMarker(ownMarker) || listMarker(parent.marker) || style.bullet}`;
+};
+
+// Prefix for a new last child of parent, copied from its current last child if it has one
+const getNewChildPrefix = (
+  lines: string[],
+  parent: MindMapNode,
+  format: EditableFormat,
+  style: TextStyle,
+  excludeId?: string
+): string => {
+  const siblings = parent.children.filter(child => child.id !== excludeId && child.lineNumber !== undefined);
+  const lastSibling = siblings[siblings.length - 1];
+  if (lastSibling) {
+    const { indent, marker } = splitLine(lines[(lastSibling.lineNumber as number) - 1], format);
+    return `${indent}${marker}`;
+  }
+  const parentLine = splitLine(lines[(parent.lineNumber as number) - 1], format);
+  return getChildPrefix(parentLine, style, getHeadingDepths(lines, format));
+};
+
+/**
+ * Replace a node's label, keeping its line's indentation, bullet and details
+ */
+export const renameNode = (
+  text: string,
+  format: InputFormat,
+  nodes: MindMapNode[],
+  nodeId: string,
+  label: string
+): TextEdit | null => {
+  const node = findNode(nodes, nodeId);
+  if (!node || !label.trim() || label.trim() === node.label) return null;
+
+  const resolvedFormat = resolveFormat(text, format);
+  const lines = text.split('\n');
+  const index = (node.lineNumber as number) - 1;
+  const { indent, marker, content } = splitLine(lines[index], resolvedFormat);
+  lines[index] = `${indent}${marker}${formatContent(label.trim(), node, resolvedFormat, content)}`;
+
+  return { text: lines.join('\n'), lineNumber: index + 1 };
+};
+
+/**
+ * Replace a node's own style in its line's attribute block. Mermaid
+ * syntax has no place for it, so Mermaid text is left unchanged.
+ */
+export const setNodeStyle = (
+  text: string,
+  format: InputFormat,
+  nodes: MindMapNode[],
+  nodeId: string,
+  style: NodeStyle
+): TextEdit | null => {
+  const node = findNode(nodes, nodeId);
+  const resolvedFormat = resolveFormat(text, format);
+  if (!node || resolvedFormat === 'mermaid') return null;
+
+  const lines = text.split('\n');
+  const index = (node.lineNumber as number) - 1;
+  const { indent, marker } = splitLine(lines[index], resolvedFormat);
+  const styled: MindMapNode = { ...node, ...clearStyle, ...style };
+  lines[index] = `${indent}${marker}${formatContent(node.label, styled, resolvedFormat)}`;
+
+  return { text: lines.join('\n'), lineNumber: index + 1 };
+};
+
+const createNodeLine = (prefix: string, label: string, format: EditableFormat): string => {
+  const node: MindMapNode = { id: '', label, level: 0, children: [], isExpanded: true };
+  return `${prefix}${formatContent(label, node, format)}`;
+};
+
+/**
+ * Insert a new node as the last child of a parent
+ */
+export const addChildNode = (
+  text: string,
+  format: InputFormat,
+  nodes: MindMapNode[],
+  parentId: string,
+  label = DEFAULT_NODE_LABEL
+): TextEdit | null => {
+  const parent = findNode(nodes, parentId);
+  if (!parent) return null;
+
+  const resolvedFormat = resolveFormat(text, format);
+  const lines = text.split('\n');
+  const prefix = getNewChildPrefix(lines, parent, resolvedFormat, detectTextStyle(text, resolvedFormat));
+  const { end } = getBlockRange(lines, parent);
+
+  lines.splice(end, 0, createNodeLine(prefix, label, resolvedFormat));
+  return { text: lines.join('\n'), lineNumber: end + 1 };
+};
+
+/**
+ * Insert a new node directly after a node and its subtree, at the same level
+ */
+export const addSiblingNode = (
+  text: string,
+  format: InputFormat,
+  nodes: MindMapNode[],
+  nodeId: string,
+  label = DEFAULT_NODE_LABEL
+): TextEdit | null => {
+  const node = findNode(nodes, nodeId);
+  if (!node) return null;
+
+  const resolvedFormat = resolveFormat(text, format);
+  const lines = text.split('\n');
+  const { indent, marker } = splitLine(lines[(node.lineNumber as number) - 1], resolvedFormat);
+  const { end } = getBlockRange(lines, node);
+
+  lines.splice(end, 0, createNodeLine(`${indent}${marker}`, label, resolvedFormat));
+  return { text: lines.join('\n'), lineNumber: end + 1 };
+};
+
+/**
+ * Remove a node together with its subtree and notes
+ */
+export const deleteNode = (
+  text: string,
+  nodes: MindMapNode[],
+  nodeId: string
+): TextEdit | null => {
+  const node = findNode(nodes, nodeId);
+  if (!node) return null;
+
+  const lines = text.split('\n');
+  const { start, end } = getBlockRange(lines, node);
+  lines.splice(start, end - start);
+
+  return { text: lines.join('\n'), lineNumber: Math.min(start + 1, lines.length) };
+};
+
+/**
+ * Move a node and its subtree to become the last child of another node.
+ * Moved lines are re-indented for their new depth; their content is kept
+ * as written. Returns null when the move would put a node inside itself.
+ */
+export const moveNode = (
+  text: string,
+  format: InputFormat,
+  nodes: MindMapNode[],
+  nodeId: string,
+  targetId: string
+): TextEdit | null => {
+  const node = findNode(nodes, nodeId);
+  const target = findNode(nodes, targetId);
+  if (!node || !target) return null;
+
+  const subtree = flattenNodes([node]);
+  if (subtree.some(item => item.id === targetId)) return null;
+
+  const resolvedFormat = resolveFormat(text, format);
+  const lines = text.split('\n');
+  const style = detectTextStyle(text, resolvedFormat);
+  const headingDepths = getHeadingDepths(lines, resolvedFormat);
+
+  // New prefix for every node line in the moved subtree
+  const prefixes = new Map<number, string>();
+  const assignPrefix = (item: MindMapNode, prefix: string) => {
+    prefixes.set(item.lineNumber as number, prefix);
+    const parentParts = splitLine(prefix, resolvedFormat);
+    item.children.forEach(child => {
+      const { marker } = splitLine(lines[(child.lineNumber as number) - 1], resolvedFormat);
+      assignPrefix(child, getChildPrefix(parentParts, style, headingDepths, marker));
+    });
+  };
+  assignPrefix(node, getNewChildPrefix(lines, target, resolvedFormat, style, nodeId));
+
+  const { start, end } = getBlockRange(lines, node);
+  let ownerIndent = '';
+  const movedLines = lines.slice(start, end).map((line, offset) => {
+    const prefix = prefixes.get(start + offset + 1);
+    if (prefix !== undefined) {
+      ownerIndent = prefix.match(/^\s*/)?.[0] ?? '';
+      return `${prefix}${splitLine(line, resolvedFormat).content}`;
+    }
+    // Notes and other lines follow the node above them
+    return line.trim() ? `${ownerIndent}${style.indent}${line.trim()}` : '';
+  });
+
+  const targetEnd = getBlockRange(lines, target).end;
+  lines.splice(start, end - start);
+  const insertAt = targetEnd > start ? targetEnd - (end - start) : targetEnd;
+  lines.splice(insertAt, 0, ...movedLines);
+
+  return { text: lines.join('\n'), lineNumber: insertAt + 1 };
+};
@@ -0,0 +1,157 @@
+import { MindMapNode, MindMapTheme } from '../types/mindmap';
+
+const SANS_FONT = 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", sans-serif';
+const SERIF_FONT = 'Georgia, Cambria, "Times New Roman", serif';
+const MONO_FONT = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+
+/** Font stacks offered when editing a theme */
+export const THEME_FONTS = [
+  { name: 'Sans serif', value: SANS_FONT },
+  { name: 'Serif', value: SERIF_FONT },
+  { name: 'Monospace', value: MONO_FONT }
+];
+
+export const BUILT_IN_THEMES: MindMapTheme[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    mode: 'light',
+    paletteMode: 'level',
+    palette: ['#3b82f6', '#14b8a6', '#f97316', '#a855f7', '#22c55e', '#ec4899'],
+    rootColor: '#1f2937',
+    nodeTextColor: '#ffffff',
+    textColor: '#1f2937',
+    connectorColor: '#cbd5e1',
+    background: '#ffffff',
+    fontFamily: SANS_FONT,
+    isBuiltIn: true
+  },
+  {
+    id: 'midnight',
+    name: 'Midnight',
+    mode: 'dark',
+    paletteMode: 'branch',
+    palette: ['#60a5fa', '#2dd4bf', '#fb923c', '#c084fc', '#4ade80', '#f472b6', '#facc15', '#f87171'],
+    rootColor: '#e2e8f0',
+    nodeTextColor: '#0f172a',
+    textColor: '#e2e8f0',
+    connectorColor: '#475569',
+    background: '#0f172a',
+    fontFamily: SANS_FONT,
+    isBuiltIn: true
+  },
+  {
+    id: 'pastel',
+    name: 'Pastel',
+    mode: 'light',
+    paletteMode: 'branch',
+    palette: ['#93c5fd', '#99f6e4', '#fde68a', '#fbcfe8', '#c4b5fd', '#fed7aa'],
+    rootColor: '#475569',
+    nodeTextColor: '#1f2937',
+    textColor: '#334155',
+    connectorColor: '#d6d3d1',
+    background: '#fffbf5',
+    fontFamily: SERIF_FONT,
+    isBuiltIn: true
+  },
+  {
+    id: 'monochrome',
+    name: 'Monochrome',
+    mode: 'light',
+    paletteMode: 'level',
+    palette: ['#111827', '#374151', '#4b5563', '#6b7280'],
+    rootColor: '#111827',
+    nodeTextColor: '#ffffff',
+    textColor: '#111827',
+    connectorColor: '#9ca3af',
+    background: '#ffffff',
+    fontFamily: MONO_FONT,
+    isBuiltIn: true
+  }
+];
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0];
+
+const STORAGE_KEY = 'mindmap-custom-themes';
+
+/**
+ * Fill colour of every node: by depth in level mode, or by the top-level
+ * branch in branch mode, where roots get the root colour
+ */
+export const getNodeFills = (theme: MindMapTheme, nodes: MindMapNode[]): Map<string, string> => {
+  const fills = new Map<string, string>();
+  const { palette } = theme;
+
+  const assign = (node: MindMapNode, depth: number, branch: number) => {
+    const color = theme.paletteMode === 'level'
+      ? palette[depth % palette.length]
+      : depth === 0 ? theme.rootColor : palette[branch % palette.length];
+    fills.set(node.id, color);
+    node.children.forEach((child, index) => assign(child, depth + 1, depth === 0 ? index : branch));
+  };
+
+  nodes.forEach((root, index) => assign(root, 0, index));
+  return fills;
+};
+
+/**
+ * Colours of a filled node card; colours set on the node itself win
+ */
+export const getFilledNodeStyle = (
+  node: MindMapNode,
+  fills: Map<string, string>,
+  theme: MindMapTheme
+): { backgroundColor?: string; color: string } => ({
+  backgroundColor: node.background ?? fills.get(node.id),
+  color: node.color ?? theme.nodeTextColor
+});
+
+/**
+ * Copy of the tree with theme colours written onto nodes that have none,
+ * for export formats that store colours per node
+ */
+export const applyThemeColors = (nodes: MindMapNode[], theme: MindMapTheme): MindMapNode[] => {
+  const fills = getNodeFills(theme, nodes);
+  const apply = (nodeList: MindMapNode[]): MindMapNode[] =>
+    nodeList.map(node => {
+      const style = getFilledNodeStyle(node, fills, theme);
+      return { ...node, background: style.backgroundColor, color: style.color, children: apply(node.children) };
+    });
+  return apply(nodes);
+};
+
+const isColor = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const isTheme = (value: unknown): value is MindMapTheme => {
+  if (!value || typeof value !== 'object') return false;
+  const theme = value as Record<string, unknown>;
+  return typeof theme.id === 'string'
+    && typeof theme.name === 'string'
+    && (theme.mode === 'light' || theme.mode === 'dark')
+    && (theme.paletteMode === 'level' || theme.paletteMode === 'branch')
+    && Array.isArray(theme.palette) && theme.palette.length > 0 && theme.palette.every(isColor)
+    && [theme.rootColor, theme.nodeTextColor, theme.textColor, theme.connectorColor, theme.background].every(isColor)
+    && typeof theme.fontFamily === 'string';
+};
+
+/**
+ * Themes saved in this browser; entries that no longer fit the theme shape are skipped
+ */
+export const loadCustomThemes = (): MindMapTheme[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isTheme).map(theme => ({ ...theme, isBuiltIn: false })) : [];
+  } catch (error) {
+    console.warn('Could not read saved themes:', error);
+    return [];
+  }
+};
+
+export const saveCustomThemes = (themes: MindMapTheme[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+  } catch (error) {
+    console.warn('Could not save themes:', error);
+  }
+};
@@ -0,0 +1,200 @@
+import { MindMapNode, NodeSize } from '../types/mindmap';
+
+/**
+ * vertical: top-down org chart; horizontal: left-to-right tree
+ */
+export type TreeOrientation = 'vertical' | 'horizontal';
+
+export interface TreeLayoutNode extends MindMapNode {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+export interface TreeLayoutEdge {
+  id: string;
+  path: string;
+}
+
+export interface TreeLayout {
+  nodes: TreeLayoutNode[];
+  edges: TreeLayoutEdge[];
+  bounds: { minX: number; minY: number; width: number; height: number };
+}
+
+// Gaps between neighbouring subtrees and between levels
+const SIBLING_GAP = 24;
+const LEVEL_GAP = 56;
+const LAYOUT_PADDING = 40;
+
+// Extent of a subtree along the sibling axis at each depth below its root
+type Contour = { min: number; max: number }[];
+
+interface SubtreeLayout {
+  contour: Contour;
+  offsets: Map<string, number>;
+}
+
+const visibleChildren = (node: MindMapNode): MindMapNode[] =>
+  node.isExpanded ? node.children : [];
+
+/**
+ * Tidy tree layout in the Reingold–Tilford style: subtrees are packed as
+ * close as their contours allow, parents are centred over their children
+ * and every level sits on its own row (vertical) or column (horizontal),
+ * sized to its largest node. Several roots are laid out side by side.
+ */
+export const calculateTreeLayout = (
+  nodes: MindMapNode[],
+  getSize: (node: MindMapNode) => NodeSize,
+  orientation: TreeOrientation
+): TreeLayout => {
+  const sizes = new Map<string, NodeSize>();
+  const sizeOf = (node: MindMapNode): NodeSize => {
+    const size = sizes.get(node.id) ?? getSize(node);
+    sizes.set(node.id, size);
+    return size;
+  };
+  const breadthOf = (node: MindMapNode) =>
+    orientation === 'vertical' ? sizeOf(node).width : sizeOf(node).height;
+
+  // Place children next to each other as tightly as their contours allow,
+  // returning their offsets along the sibling axis and the merged contour
+  const packSiblings = (children: MindMapNode[]): { contour: Contour; offsets: Map<string, number>; positions: number[] } => {
+    const contour: Contour = [];
+    const offsets = new Map<string, number>();
+    const positions: number[] = [];
+
+    children.forEach(child => {
+      const subtree = layoutSubtree(child);
+      let shift = 0;
+      if (positions.length > 0) {
+        shift = -Infinity;
+        subtree.contour.forEach((level, depth) => {
+          if (contour[depth]) shift = Math.max(shift, contour[depth].max - level.min + SIBLING_GAP);
+        });
+      }
+
+      positions.push(shift);
+      subtree.offsets.forEach((offset, id) => offsets.set(id, offset + shift));
+      subtree.contour.forEach((level, depth) => {
+        contour[depth] = contour[depth]
+          ? { min: Math.min(contour[depth].min, level.min + shift), max: level.max + shift }
+          : { min: level.min + shift, max: level.max + shift };
+      });
+    });
+
+    return { contour, offsets, positions };
+  };
+
+  // Lay out a subtree with its root at offset 0
+  const layoutSubtree = (node: MindMapNode): SubtreeLayout => {
+    const half = breadthOf(node) / 2;
+    const children = visibleChildren(node);
+    if (children.length === 0) {
+      return { contour: [{ min: -half, max: half }], offsets: new Map([[node.id, 0]]) };
+    }
+
+    const packed = packSiblings(children);
+    const center = (packed.positions[0] + packed.positions[packed.positions.length - 1]) / 2;
+    const offsets = new Map([[node.id, 0]]);
+    packed.offsets.forEach((offset, id) => offsets.set(id, offset - center));
+
+    return {
+      contour: [
+        { min: -half, max: half },
+        ...packed.contour.map(level => ({ min: level.min - center, max: level.max - center }))
+      ],
+      offsets
+    };
+  };
+
+  const { offsets } = packSiblings(nodes);
+
+  // Depth of every visible node and the space each level takes along the depth axis
+  const placed: { node: MindMapNode; depth: number; parent?: MindMapNode }[] = [];
+  const levelSizes: number[] = [];
+  const collect = (node: MindMapNode, depth: number, parent?: MindMapNode) => {
+    const size = sizeOf(node);
+    placed.push({ node, depth, parent });
+    levelSizes[depth] = Math.max(levelSizes[depth] ?? 0, orientation === 'vertical' ? size.height : size.width);
+    visibleChildren(node).forEach(child => collect(child, depth + 1, node));
+  };
+  nodes.forEach(node => collect(node, 0));
+  if (placed.length === 0) {
+    return { nodes: [], edges: [], bounds: { minX: 0, minY: 0, width: 0, height: 0 } };
+  }
+
+  // Centre line of each level along the depth axis
+  const levelCenters: number[] = [];
+  levelSizes.forEach((size, depth) => {
+    levelCenters[depth] = depth === 0
+      ? size / 2
+      : levelCenters[depth - 1] + levelSizes[depth - 1] / 2 + LEVEL_GAP + size / 2;
+  });
+
+  const laidOut = new Map<string, TreeLayoutNode>();
+  placed.forEach(({ node, depth }) => {
+    const size = sizeOf(node);
+    const breadth = offsets.get(node.id) as number;
+    laidOut.set(node.id, {
+      ...node,
+      x: orientation === 'vertical' ? breadth : levelCenters[depth],
+      y: orientation === 'vertical' ? levelCenters[depth] : breadth,
+      width: size.width,
+      height: size.height,
+      depth
+    });
+  });
+
+  const edges: TreeLayoutEdge[] = [];
+  placed.forEach(({ node, parent }) => {
+    if (!parent) return;
+    const from = laidOut.get(parent.id) as TreeLayoutNode;
+    const to = laidOut.get(node.id) as TreeLayoutNode;
+    edges.push({ id: `${parent.id}-${node.id}`, path: getConnectorPath(from, to, orientation) });
+  });
+
+  const layoutNodes = Array.from(laidOut.values());
+  const minX = Math.min(...layoutNodes.map(node => node.x - node.width / 2));
+  const maxX = Math.max(...layoutNodes.map(node => node.x + node.width / 2));
+  const minY = Math.min(...layoutNodes.map(node => node.y - node.height / 2));
+  const maxY = Math.max(...layoutNodes.map(node => node.y + node.height / 2));
+
+  return {
+    nodes: layoutNodes,
+    edges,
+    bounds: {
+      minX: minX - LAYOUT_PADDING,
+      minY: minY - LAYOUT_PADDING,
+      width: maxX - minX + LAYOUT_PADDING * 2,
+      height: maxY - minY + LAYOUT_PADDING * 2
+    }
+  };
+};
+
+/**
+ * SVG path joining a parent to a child: right-angled elbows for the org
+ * chart, a smooth curve from edge to edge for the horizontal tree
+ */
+export const getConnectorPath = (
+  parent: TreeLayoutNode,
+  child: TreeLayoutNode,
+  orientation: TreeOrientation
+): string => {
+  if (orientation === 'vertical') {
+    const startY = parent.y + parent.height / 2;
+    const endY = child.y - child.height / 2;
+    const midY = (startY + endY) / 2;
+    return `M ${parent.x} ${startY} V ${midY} H ${child.x} V ${endY}`;
+  }
+
+  // Children may sit on either side of their parent
+  const direction = child.x >= parent.x ? 1 : -1;
+  const startX = parent.x + direction * parent.width / 2;
+  const endX = child.x - direction * child.width / 2;
+  const midX = (startX + endX) / 2;
+  return `M ${startX} ${parent.y} C ${midX} ${parent.y}, ${midX} ${child.y}, ${endX} ${child.y}`;
+};
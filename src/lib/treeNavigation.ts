@@ -0,0 +1,67 @@
+import { TreeRow } from './parser';
+import { getDisplayLabel } from './crossLinks';
+
+/**
+ * What a key press in a tree should do: move focus to another row,
+ * expand or collapse a node, or start renaming it
+ */
+export type TreeKeyAction =
+  | { type: 'focus'; index: number }
+  | { type: 'toggle'; nodeId: string }
+  | { type: 'rename'; nodeId: string };
+
+// How long typed characters keep adding to the type-ahead search
+export const TYPEAHEAD_TIMEOUT = 500;
+
+/**
+ * Next row, after the given one and wrapping around, whose label starts
+ * with the typed text
+ */
+export const findTypeaheadMatch = (rows: TreeRow[], fromIndex: number, text: string): number | null => {
+  const prefix = text.toLowerCase();
+  for (let offset = 1; offset <= rows.length; offset++) {
+    const index = (fromIndex + offset) % rows.length;
+    if (getDisplayLabel(rows[index].node.label).toLowerCase().startsWith(prefix)) return index;
+  }
+  return null;
+};
+
+/**
+ * Map a key to an action following the WAI-ARIA tree pattern: Up/Down move
+ * between rows, Right expands or enters a branch, Left collapses or goes
+ * to the parent, Home/End jump to the ends, Enter/Space toggle and F2
+ * renames. Returns null for keys the tree does not handle.
+ */
+export const getTreeKeyAction = (rows: TreeRow[], index: number, key: string): TreeKeyAction | null => {
+  const row = rows[index];
+  if (!row) return rows.length > 0 ? { type: 'focus', index: 0 } : null;
+  const hasChildren = row.node.children.length > 0;
+
+  switch (key) {
+    case 'ArrowDown':
+      return index + 1 < rows.length ? { type: 'focus', index: index + 1 } : null;
+    case 'ArrowUp':
+      return index > 0 ? { type: 'focus', index: index - 1 } : null;
+    case 'Home':
+      return { type: 'focus', index: 0 };
+    case 'End':
+      return { type: 'focus', index: rows.length - 1 };
+    case 'ArrowRight':
+      if (!hasChildren) return null;
+      return row.node.isExpanded ? { type: 'focus', index: index + 1 } : { type: 'toggle', nodeId: row.node.id };
+    case 'ArrowLeft': {
+      if (hasChildren && row.node.isExpanded) return { type: 'toggle', nodeId: row.node.id };
+      for (let parent = index - 1; parent >= 0; parent--) {
+        if (rows[parent].depth < row.depth) return { type: 'focus', index: parent };
+      }
+      return null;
+    }
+    case 'Enter':
+    case ' ':
+      return hasChildren ? { type: 'toggle', nodeId: row.node.id } : null;
+    case 'F2':
+      return { type: 'rename', nodeId: row.node.id };
+    default:
+      return null;
+  }
+};
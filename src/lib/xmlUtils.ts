@@ -0,0 +1,31 @@
+/**
+ * Escape a string for use in XML text or attribute values
+ */
+export const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+};
+
+/**
+ * Parse an XML string, throwing if it is not well-formed
+ */
+export const parseXml = (xml: string): Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML.');
+  }
+  
+  return doc;
+};
+
+/**
+ * Direct child elements with the given tag name
+ */
+export const childElements = (element: Element, tagName: string): Element[] => {
+  return Array.from(element.children).filter(child => child.tagName === tagName);
+};
@@ -1,20 +1,159 @@
-export interface MindMapNode {
+export type Priority = 1 | 2 | 3;
+
+export type NodeShape = 'rounded' | 'pill' | 'ellipse' | 'underline';
+
+/**
+ * A node's own look, overriding the theme, written in its attribute block
+ * e.g. {background=#fde68a shape=pill icon=star bold important}
+ */
+export interface NodeStyle {
+  color?: string;
+  background?: string;
+  shape?: NodeShape;
+  bold?: boolean;
+  italic?: boolean;
+  /** Name of an icon from the node icon set, e.g. "star" */
+  iconName?: string;
+  important?: boolean;
+}
+
+/**
+ * Optional per-node data parsed from the text and carried onto the tree
+ */
+export interface NodeDetails extends NodeStyle {
+  note?: string;
+  link?: string;
+  anchor?: string;
+  icon?: string;
+  tags?: string[];
+  priority?: Priority;
+  properties?: Record<string, string>;
+}
+
+export interface MindMapNode extends NodeDetails {
   id: string;
   label: string;
   level: number;
   children: MindMapNode[];
   parent?: MindMapNode;
   isExpanded: boolean;
+  lineNumber?: number;
   x?: number;
   y?: number;
 }
 
-export interface ParsedLine {
+export interface ParsedLine extends NodeDetails {
   content: string;
   level: number;
   lineNumber: number;
 }
 
-export type LayoutType = 'tree' | 'radial';
+/**
+ * A non-hierarchical link written as [[target]] inside a node's text
+ */
+export interface CrossLink {
+  id: string;
+  sourceId: string;
+  targetId: string;
+}
+
+export interface UnresolvedLink {
+  sourceId: string;
+  target: string;
+  lineNumber?: number;
+}
+
+export interface CrossLinkResult {
+  links: CrossLink[];
+  unresolved: UnresolvedLink[];
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A quick fix that replaces one line of the input text
+ */
+export interface DiagnosticFix {
+  label: string;
+  lineNumber: number;
+  replacement: string;
+}
+
+export interface Diagnostic {
+  lineNumber: number;
+  severity: DiagnosticSeverity;
+  message: string;
+  fix?: DiagnosticFix;
+}
+
+/**
+ * Editing operations the visual views can perform on the map, plus
+ * hoisting a node to show only its branch
+ */
+export interface NodeEditor {
+  editingNodeId: string | null;
+  onStartRename: (nodeId: string | null) => void;
+  onRename: (nodeId: string, label: string) => void;
+  onAddChild: (nodeId: string) => void;
+  onAddSibling: (nodeId: string) => void;
+  onDelete: (nodeId: string) => void;
+  onMove: (nodeId: string, targetId: string) => void;
+  onHoist: (nodeId: string) => void;
+  /** Replace the node's own style; keys left out are cleared */
+  onStyle: (nodeId: string, style: NodeStyle) => void;
+}
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * A saved 3D camera view, optionally relative to a node
+ */
+export interface CameraBookmark {
+  id: string;
+  name: string;
+  nodeId?: string;
+  position: Vector3;
+  lookAt: Vector3;
+}
+
+/**
+ * Rendered size of a node, used by the 2D layouts
+ */
+export interface NodeSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Colours and fonts of the map views and exports. Nodes are coloured by
+ * depth ('level') or by the top-level branch they belong to ('branch').
+ */
+export interface MindMapTheme {
+  id: string;
+  name: string;
+  mode: ThemeMode;
+  paletteMode: PaletteMode;
+  palette: string[];
+  /** Root node colour in branch mode */
+  rootColor: string;
+  /** Text on coloured nodes */
+  nodeTextColor: string;
+  /** Labels drawn straight onto the background */
+  textColor: string;
+  connectorColor: string;
+  background: string;
+  fontFamily: string;
+  isBuiltIn?: boolean;
+}
+
+export type LayoutType = 'tree' | 'radial' | 'balanced' | 'orgchart' | 'tidy' | 'sunburst' | 'icicle';
 export type ViewMode = 'split' | 'preview' | 'input';
-export type VisualizationType = '2d' | '3d';
\ No newline at end of file
+export type VisualizationType = '2d' | '3d';
+export type ExportScope = 'visible' | 'full';
+export type ThemeMode = 'light' | 'dark';
+export type PaletteMode = 'level' | 'branch';
+export type InputFormat = 'auto' | 'plain' | 'markdown' | 'mermaid';
\ No newline at end of file
@@ -1,6 +1,8 @@
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  // Dark styles follow the chosen theme rather than the system setting
+  darkMode: 'class',
   theme: {
     extend: {},
   },